@@ -1,10 +1,29 @@
 export { default as Maplibre } from './Maplibre.vue';
 export { default as GeolocateControls } from './GeolocateControls.vue';
+export { default as NavigationControls } from './NavigationControls.vue';
+export { default as ScaleControls } from './ScaleControls.vue';
+export { default as FullscreenControls } from './FullscreenControls.vue';
+export { default as AttributionControls } from './AttributionControls.vue';
+export { default as CustomControl } from './CustomControl.vue';
+export { default as DrawControl } from './DrawControl.vue';
 export { default as GeoJsonSource } from './GeoJsonSource.vue';
+export { default as VectorSource } from './VectorSource.vue';
+export { default as RasterSource } from './RasterSource.vue';
+export { default as RasterDemSource } from './RasterDemSource.vue';
+export { default as ImageSource } from './ImageSource.vue';
+export { default as VideoSource } from './VideoSource.vue';
+export { default as CanvasSource } from './CanvasSource.vue';
 export { default as FillLayer } from './FillLayer.vue';
 export { default as CircleLayer } from './CircleLayer.vue';
 export { default as LineLayer } from './LineLayer.vue';
 export { default as SymbolLayer } from './SymbolLayer.vue';
+export { default as RasterLayer } from './RasterLayer.vue';
+export { default as HillshadeLayer } from './HillshadeLayer.vue';
+export { default as HeatmapLayer } from './HeatmapLayer.vue';
+export { default as FillExtrusionLayer } from './FillExtrusionLayer.vue';
 export { default as Image } from './Image.vue';
 export { default as Marker } from './Marker.vue';
 export { default as Popup } from './Popup.vue';
+export { default as MarkerCollection } from './MarkerCollection.vue';
+export { default as ClusteredMarkers } from './ClusteredMarkers.vue';
+export { default as LayerTooltip } from './LayerTooltip.vue';
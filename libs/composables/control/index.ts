@@ -1 +1,7 @@
-export * from './useGeolocateControl'
+export * from './useCreateControl';
+export * from './useGeolocateControl';
+export * from './useNavigationControl';
+export * from './useScaleControl';
+export * from './useFullscreenControl';
+export * from './useAttributionControl';
+export * from './useCustomControl';
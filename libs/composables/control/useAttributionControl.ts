@@ -0,0 +1,74 @@
+import { AttributionControl } from 'maplibre-gl';
+import { useCreateControl } from '@libs/composables';
+import type { ShallowRef, MaybeRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  AttributionControlOptions,
+  ControlPosition,
+} from 'maplibre-gl';
+
+interface AttributionControlProps {
+  map: MaybeRef<Nullable<Map>>;
+  position?: ControlPosition;
+  options?: AttributionControlOptions;
+  debug?: boolean;
+}
+
+interface AttributionControlActions {
+  attributionControl: ShallowRef<Nullable<AttributionControl>>;
+  isControlAdded: ShallowRef<boolean>;
+  removeControl: () => void;
+  addControl: () => void;
+  setCustomAttribution: (attribution?: string | string[]) => void;
+}
+
+/**
+ * Composable for managing MapLibre GL Attribution Control
+ * Provides source and custom attributions with error handling and lifecycle management
+ *
+ * Disable the default control with the `attributionControl: false` map option
+ * to avoid showing two attribution controls
+ *
+ * @param props - Configuration options for the attribution control
+ * @returns Actions and state for the attribution control
+ */
+export function useAttributionControl({
+  map,
+  position = 'bottom-right',
+  options = {},
+  debug = false,
+}: AttributionControlProps): AttributionControlActions {
+  let currentOptions: AttributionControlOptions = { ...options };
+
+  const {
+    control: attributionControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+    recreateControl,
+  } = useCreateControl({
+    map,
+    name: 'attribution',
+    factory: () => new AttributionControl(currentOptions),
+    position,
+    debug,
+  });
+
+  /**
+   * Sets the custom attribution, recreating the control since MapLibre cannot update it in place
+   * @param attribution - Attribution text or list of texts
+   */
+  function setCustomAttribution(attribution?: string | string[]): void {
+    currentOptions = { ...currentOptions, customAttribution: attribution };
+    recreateControl();
+  }
+
+  return {
+    attributionControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+    setCustomAttribution,
+  };
+}
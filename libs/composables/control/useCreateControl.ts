@@ -0,0 +1,127 @@
+import { shallowRef, watchEffect, onUnmounted, computed, unref } from 'vue';
+import { useLogger } from '@libs/composables';
+import type { ShallowRef, MaybeRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type { Map, IControl, ControlPosition } from 'maplibre-gl';
+
+export interface CreateControlProps<C extends IControl> {
+  map: MaybeRef<Nullable<Map>>;
+  /** Control name used in log messages */
+  name: string;
+  /** Creates a new control instance from the current options */
+  factory: () => C;
+  position?: MaybeRef<ControlPosition | undefined>;
+  debug?: boolean;
+}
+
+export interface CreateControlActions<C extends IControl> {
+  control: ShallowRef<Nullable<C>>;
+  isControlAdded: ShallowRef<boolean>;
+  removeControl: () => void;
+  addControl: () => void;
+  recreateControl: () => void;
+}
+
+/**
+ * Composable for managing MapLibre GL Controls
+ * Shared add/remove lifecycle for the built-in controls: adds the control once
+ * the map is available and removes it when the map goes away or on unmount
+ *
+ * @param props - Configuration options for the control
+ * @returns Actions and state for the control
+ */
+export function useCreateControl<C extends IControl>({
+  map,
+  name,
+  factory,
+  position,
+  debug = false,
+}: CreateControlProps<C>): CreateControlActions<C> {
+  const { logError } = useLogger(debug);
+  const control = shallowRef(null) as ShallowRef<Nullable<C>>;
+  const isControlAdded = shallowRef<boolean>(false);
+
+  // Computed property for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+
+  /**
+   * Safely adds the control to the map
+   */
+  function addControl(): void {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef) return;
+
+    if (control.value && isControlAdded.value) return;
+
+    try {
+      if (!control.value) control.value = factory();
+
+      mapRef.addControl(control.value, unref(position));
+      isControlAdded.value = true;
+    } catch (error) {
+      logError(`Error adding ${name} control to map:`, error);
+      // Reset state on error
+      control.value = null;
+      isControlAdded.value = false;
+    }
+  }
+
+  /**
+   * Safely removes the control from the map
+   */
+  function removeControl(): void {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef || !control.value || !isControlAdded.value) return;
+
+    try {
+      mapRef.removeControl(control.value);
+      isControlAdded.value = false;
+    } catch (error) {
+      logError(`Error removing ${name} control from map:`, error);
+      // Still reset state even if removal failed
+      isControlAdded.value = false;
+    } finally {
+      control.value = null;
+    }
+  }
+
+  /**
+   * Replaces the control with a fresh instance, for options MapLibre cannot update in place
+   */
+  function recreateControl(): void {
+    if (!isControlAdded.value) return;
+
+    removeControl();
+    addControl();
+  }
+
+  // Watch for map changes and manage control lifecycle
+  const stopWatchEffect = watchEffect(() => {
+    const mapRef = mapInstance.value;
+
+    if (mapRef && !isControlAdded.value) {
+      addControl();
+    } else if (!mapRef && isControlAdded.value) {
+      removeControl();
+    }
+  });
+
+  // Cleanup function for removing control and stopping watchers
+  function cleanup(): void {
+    stopWatchEffect();
+    removeControl();
+  }
+
+  // Automatic cleanup on component unmount
+  onUnmounted(cleanup);
+
+  return {
+    control,
+    isControlAdded,
+    removeControl,
+    addControl,
+    recreateControl,
+  };
+}
@@ -0,0 +1,125 @@
+import { shallowRef, unref, watch, onUnmounted } from 'vue';
+import { useCreateControl } from '@libs/composables';
+import type { ShallowRef, MaybeRef } from 'vue';
+import type { Nullable, Undefinedable } from '@libs/types';
+import type { Map, IControl, ControlPosition } from 'maplibre-gl';
+
+interface CustomControlProps {
+  map: MaybeRef<Nullable<Map>>;
+  position?: MaybeRef<ControlPosition>;
+  index?: MaybeRef<Undefinedable<number>>;
+  className?: string;
+  group?: boolean;
+  debug?: boolean;
+}
+
+interface CustomControlActions {
+  customControl: ShallowRef<Nullable<IControl>>;
+  container: ShallowRef<Nullable<HTMLElement>>;
+  isControlAdded: ShallowRef<boolean>;
+  removeControl: () => void;
+  addControl: () => void;
+}
+
+/**
+ * Composable for managing a custom MapLibre GL Control
+ * Wraps a container element in an `IControl` so any content, such as a Vue slot
+ * teleported into `container`, can be placed in the map's control corners
+ *
+ * The container is created when the control is first added, so the composable
+ * can run during SSR, and reused when the control is re-added, so content keeps
+ * its state when the position changes
+ *
+ * @param props - Configuration options for the custom control
+ * @returns Actions and state for the custom control
+ */
+export function useCustomControl({
+  map,
+  position = 'top-right',
+  index,
+  className,
+  group = false,
+  debug = false,
+}: CustomControlProps): CustomControlActions {
+  const container = shallowRef<Nullable<HTMLElement>>(null);
+
+  /**
+   * Returns the container, creating it on first use
+   */
+  function getContainer(): HTMLElement {
+    if (!container.value) {
+      const element = document.createElement('div');
+      element.className = [
+        'maplibregl-ctrl',
+        group && 'maplibregl-ctrl-group',
+        className,
+      ]
+        .filter(Boolean)
+        .join(' ');
+      container.value = element;
+    }
+
+    return container.value;
+  }
+
+  const {
+    control: customControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+    recreateControl,
+  } = useCreateControl<IControl>({
+    map,
+    name: 'custom',
+    factory: () => ({
+      onAdd: getContainer,
+      onRemove: () => container.value?.remove(),
+    }),
+    position,
+    debug,
+  });
+
+  /**
+   * Moves the container to the requested index among the controls of its corner
+   */
+  function applyIndex(): void {
+    const indexVal = unref(index);
+    const element = container.value;
+
+    if (indexVal === undefined || !element || !isControlAdded.value) return;
+
+    const corner = element.parentElement;
+
+    if (!corner) return;
+
+    const siblings = Array.from(corner.children).filter(
+      (child) => child !== element,
+    );
+    corner.insertBefore(element, siblings[indexVal] ?? null);
+  }
+
+  // A new position needs the control re-added to another corner
+  const stopPositionWatcher = watch(
+    () => unref(position),
+    () => recreateControl(),
+  );
+
+  const stopIndexWatcher = watch(
+    () => [isControlAdded.value, unref(index)],
+    () => applyIndex(),
+    { immediate: true },
+  );
+
+  onUnmounted(() => {
+    stopPositionWatcher();
+    stopIndexWatcher();
+  });
+
+  return {
+    customControl,
+    container,
+    isControlAdded,
+    removeControl,
+    addControl,
+  };
+}
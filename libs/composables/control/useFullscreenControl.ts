@@ -0,0 +1,85 @@
+import { shallowRef } from 'vue';
+import { FullscreenControl } from 'maplibre-gl';
+import { useCreateControl } from '@libs/composables';
+import type { ShallowRef, MaybeRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  FullscreenControlOptions,
+  ControlPosition,
+} from 'maplibre-gl';
+
+interface FullscreenControlProps {
+  map: MaybeRef<Nullable<Map>>;
+  position?: ControlPosition;
+  options?: FullscreenControlOptions;
+  debug?: boolean;
+  onFullscreenStart?: () => void;
+  onFullscreenEnd?: () => void;
+}
+
+interface FullscreenControlActions {
+  fullscreenControl: ShallowRef<Nullable<FullscreenControl>>;
+  isControlAdded: ShallowRef<boolean>;
+  isFullscreen: ShallowRef<boolean>;
+  removeControl: () => void;
+  addControl: () => void;
+}
+
+/**
+ * Composable for managing MapLibre GL Fullscreen Control
+ * Provides a fullscreen toggle with reactive state, error handling and lifecycle management
+ *
+ * @param props - Configuration options for the fullscreen control
+ * @returns Actions and state for the fullscreen control
+ */
+export function useFullscreenControl({
+  map,
+  position = 'top-right',
+  options = {},
+  debug = false,
+  onFullscreenStart,
+  onFullscreenEnd,
+}: FullscreenControlProps): FullscreenControlActions {
+  const isFullscreen = shallowRef<boolean>(false);
+
+  const {
+    control: fullscreenControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+  } = useCreateControl({
+    map,
+    name: 'fullscreen',
+    factory: createControl,
+    position,
+    debug,
+  });
+
+  /**
+   * Creates the control and wires its fullscreen events to the reactive state
+   * @returns New fullscreen control instance
+   */
+  function createControl(): FullscreenControl {
+    const control = new FullscreenControl(options);
+
+    control.on('fullscreenstart', () => {
+      isFullscreen.value = true;
+      onFullscreenStart?.();
+    });
+    control.on('fullscreenend', () => {
+      isFullscreen.value = false;
+      onFullscreenEnd?.();
+    });
+
+    return control;
+  }
+
+  return {
+    fullscreenControl,
+    isControlAdded,
+    isFullscreen,
+    removeControl,
+    addControl,
+  };
+}
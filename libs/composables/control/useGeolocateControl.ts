@@ -1,6 +1,5 @@
-import { shallowRef, watchEffect, onUnmounted, computed, unref } from 'vue';
 import { GeolocateControl } from 'maplibre-gl';
-import { useLogger } from '@libs/composables';
+import { useCreateControl, useLogger } from '@libs/composables';
 import type { ShallowRef, MaybeRef } from 'vue';
 import type { Nullable } from '@libs/types';
 import type {
@@ -38,55 +37,19 @@ export function useGeolocateControl({
   debug = false,
 }: GeolocateControlProps): GeolocateControlActions {
   const { logError } = useLogger(debug);
-  const geolocateControl = shallowRef<Nullable<GeolocateControl>>(null);
-  const isControlAdded = shallowRef<boolean>(false);
 
-  // Computed property for better reactivity and performance
-  const mapInstance = computed(() => unref(map));
-
-  /**
-   * Safely adds the geolocate control to the map
-   */
-  function addControl(): void {
-    const mapRef = mapInstance.value;
-
-    if (!mapRef) return;
-
-    if (geolocateControl.value && isControlAdded.value) return;
-
-    try {
-      if (!geolocateControl.value)
-        geolocateControl.value = new GeolocateControl(options);
-
-      mapRef.addControl(geolocateControl.value, position);
-      isControlAdded.value = true;
-    } catch (error) {
-      logError('Error adding geolocate control to map:', error);
-      // Reset state on error
-      geolocateControl.value = null;
-      isControlAdded.value = false;
-    }
-  }
-
-  /**
-   * Safely removes the geolocate control from the map
-   */
-  function removeControl(): void {
-    const mapRef = mapInstance.value;
-
-    if (!mapRef || !geolocateControl.value || !isControlAdded.value) return;
-
-    try {
-      mapRef.removeControl(geolocateControl.value);
-      isControlAdded.value = false;
-    } catch (error) {
-      logError('Error removing geolocate control from map:', error);
-      // Still reset state even if removal failed
-      isControlAdded.value = false;
-    } finally {
-      geolocateControl.value = null;
-    }
-  }
+  const {
+    control: geolocateControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+  } = useCreateControl({
+    map,
+    name: 'geolocate',
+    factory: () => new GeolocateControl(options),
+    position,
+    debug,
+  });
 
   /**
    * Triggers the geolocate functionality programmatically
@@ -101,26 +64,6 @@ export function useGeolocateControl({
     }
   }
 
-  // Watch for map changes and manage control lifecycle
-  const stopWatchEffect = watchEffect(() => {
-    const mapRef = mapInstance.value;
-
-    if (mapRef && !isControlAdded.value) {
-      addControl();
-    } else if (!mapRef && isControlAdded.value) {
-      removeControl();
-    }
-  });
-
-  // Cleanup function for removing control and stopping watchers
-  function cleanup(): void {
-    stopWatchEffect();
-    removeControl();
-  }
-
-  // Automatic cleanup on component unmount
-  onUnmounted(cleanup);
-
   return {
     geolocateControl,
     isControlAdded,
@@ -0,0 +1,57 @@
+import { NavigationControl } from 'maplibre-gl';
+import { useCreateControl } from '@libs/composables';
+import type { ShallowRef, MaybeRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  NavigationControlOptions,
+  ControlPosition,
+} from 'maplibre-gl';
+
+interface NavigationControlProps {
+  map: MaybeRef<Nullable<Map>>;
+  position?: ControlPosition;
+  options?: NavigationControlOptions;
+  debug?: boolean;
+}
+
+interface NavigationControlActions {
+  navigationControl: ShallowRef<Nullable<NavigationControl>>;
+  isControlAdded: ShallowRef<boolean>;
+  removeControl: () => void;
+  addControl: () => void;
+}
+
+/**
+ * Composable for managing MapLibre GL Navigation Control
+ * Provides zoom and compass buttons with error handling and lifecycle management
+ *
+ * @param props - Configuration options for the navigation control
+ * @returns Actions and state for the navigation control
+ */
+export function useNavigationControl({
+  map,
+  position = 'top-right',
+  options = {},
+  debug = false,
+}: NavigationControlProps): NavigationControlActions {
+  const {
+    control: navigationControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+  } = useCreateControl({
+    map,
+    name: 'navigation',
+    factory: () => new NavigationControl(options),
+    position,
+    debug,
+  });
+
+  return {
+    navigationControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+  };
+}
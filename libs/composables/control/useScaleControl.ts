@@ -0,0 +1,79 @@
+import { ScaleControl } from 'maplibre-gl';
+import { useCreateControl, useLogger } from '@libs/composables';
+import type { ShallowRef, MaybeRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  ScaleControlOptions,
+  ControlPosition,
+  Unit,
+} from 'maplibre-gl';
+
+interface ScaleControlProps {
+  map: MaybeRef<Nullable<Map>>;
+  position?: ControlPosition;
+  options?: ScaleControlOptions;
+  debug?: boolean;
+}
+
+interface ScaleControlActions {
+  scaleControl: ShallowRef<Nullable<ScaleControl>>;
+  isControlAdded: ShallowRef<boolean>;
+  removeControl: () => void;
+  addControl: () => void;
+  setUnit: (unit: Unit) => void;
+}
+
+/**
+ * Composable for managing MapLibre GL Scale Control
+ * Provides a scale bar with a switchable unit, error handling and lifecycle management
+ *
+ * @param props - Configuration options for the scale control
+ * @returns Actions and state for the scale control
+ */
+export function useScaleControl({
+  map,
+  position = 'bottom-left',
+  options = {},
+  debug = false,
+}: ScaleControlProps): ScaleControlActions {
+  const { logError } = useLogger(debug);
+  let currentOptions: ScaleControlOptions = { ...options };
+
+  const {
+    control: scaleControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+  } = useCreateControl({
+    map,
+    name: 'scale',
+    factory: () => new ScaleControl(currentOptions),
+    position,
+    debug,
+  });
+
+  /**
+   * Sets the distance unit of the scale bar with error handling
+   * @param unit - Unit of distance ('imperial' | 'metric' | 'nautical')
+   */
+  function setUnit(unit: Unit): void {
+    currentOptions = { ...currentOptions, unit };
+
+    if (!scaleControl.value) return;
+
+    try {
+      scaleControl.value.setUnit(unit);
+    } catch (error) {
+      logError('Error setting scale control unit:', error, { unit });
+    }
+  }
+
+  return {
+    scaleControl,
+    isControlAdded,
+    removeControl,
+    addControl,
+    setUnit,
+  };
+}
@@ -0,0 +1,1120 @@
+import { computed, onUnmounted, ref, shallowRef, unref, watch } from 'vue';
+import { useLogger, useMapEventListener } from '@libs/composables';
+import {
+  createCircleRing,
+  createRectangleRing,
+  getDistance,
+  getGeometryPositions,
+  getNanoid,
+  hasLayer,
+  translateGeometry,
+} from '@libs/helpers';
+import type { ComputedRef, MaybeRef, ShallowRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Feature,
+  FeatureCollection,
+  GeoJsonProperties,
+  Geometry,
+  Position,
+} from 'geojson';
+import type {
+  Map,
+  MapMouseEvent,
+  MapGeoJSONFeature,
+  Point,
+  LngLatLike,
+} from 'maplibre-gl';
+
+/**
+ * Interaction modes of the draw composable
+ */
+export enum DrawMode {
+  Static = 'static',
+  Select = 'select',
+  DirectSelect = 'direct_select',
+  Move = 'move',
+  Delete = 'delete',
+  DrawPoint = 'draw_point',
+  DrawLine = 'draw_line',
+  DrawPolygon = 'draw_polygon',
+  DrawRectangle = 'draw_rectangle',
+  DrawCircle = 'draw_circle',
+}
+
+export type DrawFeatureId = string | number;
+
+export interface DrawLayerIds {
+  fill: string;
+  line: string;
+  point: string;
+}
+
+interface DrawProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Id of the draw source, layer ids are derived from it */
+  id?: string;
+  features?: FeatureCollection;
+  mode?: DrawMode;
+  /** Snap to existing vertices while drawing and editing */
+  snap?: boolean;
+  /** Snapping distance in pixels */
+  snapDistance?: number;
+  /** Maximum number of undo steps */
+  historyLimit?: number;
+  /** Number of vertices of drawn circles */
+  circleSteps?: number;
+  debug?: boolean;
+  onChange?: (features: FeatureCollection) => void;
+  onCreate?: (feature: Feature) => void;
+  onDelete?: (feature: Feature) => void;
+}
+
+export interface DrawActions {
+  sourceId: string;
+  layerIds: DrawLayerIds;
+  features: ShallowRef<FeatureCollection>;
+  /** Features, drawing preview, vertices and midpoints to render */
+  renderData: ComputedRef<FeatureCollection>;
+  mode: ComputedRef<DrawMode>;
+  selectedId: ComputedRef<Nullable<DrawFeatureId>>;
+  canUndo: ComputedRef<boolean>;
+  canRedo: ComputedRef<boolean>;
+  setMode: (mode: DrawMode) => void;
+  setFeatures: (features: FeatureCollection) => void;
+  select: (id: Nullable<DrawFeatureId>) => void;
+  deleteFeature: (id: DrawFeatureId) => void;
+  deleteSelected: () => void;
+  finishDrawing: () => void;
+  cancelDrawing: () => void;
+  undo: () => void;
+  redo: () => void;
+}
+
+/**
+ * Position of a vertex: `[index]` in a line, `[ring, index]` in a polygon
+ */
+type VertexPath = number[];
+
+interface DragState {
+  featureId: DrawFeatureId;
+  path: Nullable<VertexPath>;
+  last: Position;
+  snapshot: FeatureCollection;
+  moved: boolean;
+}
+
+const DRAW_MODES = [
+  DrawMode.DrawPoint,
+  DrawMode.DrawLine,
+  DrawMode.DrawPolygon,
+  DrawMode.DrawRectangle,
+  DrawMode.DrawCircle,
+];
+
+// Pixels around the pointer searched for draw features
+const HIT_TOLERANCE = 4;
+
+// Double clicks right after finishing a feature belong to the drawing
+const DBLCLICK_GUARD = 500;
+
+/**
+ * Applies an edit to the positions of a line or of a polygon ring
+ * @returns The edited geometry, or null if too few vertices would be left
+ */
+function editPositions(
+  geometry: Geometry,
+  path: VertexPath,
+  edit: (positions: Position[], index: number) => void,
+): Nullable<Geometry> {
+  if (geometry.type === 'LineString') {
+    const positions = [...geometry.coordinates];
+    edit(positions, path[0]);
+
+    return positions.length >= 2
+      ? { ...geometry, coordinates: positions }
+      : null;
+  }
+
+  if (geometry.type === 'Polygon') {
+    const [ringIndex, index] = path;
+    const coordinates = geometry.coordinates.map((ring, i) => {
+      if (i !== ringIndex) return ring;
+
+      const positions = ring.slice(0, -1);
+      edit(positions, index);
+
+      return [...positions, positions[0]];
+    });
+
+    return coordinates[ringIndex].length >= 4
+      ? { ...geometry, coordinates }
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Lists the editable vertices of a line or polygon
+ */
+function getVertices(
+  geometry: Geometry,
+): { position: Position; path: VertexPath }[] {
+  if (geometry.type === 'LineString') {
+    return geometry.coordinates.map((position, i) => ({ position, path: [i] }));
+  }
+
+  if (geometry.type === 'Polygon') {
+    return geometry.coordinates.flatMap((ring, r) =>
+      ring.slice(0, -1).map((position, i) => ({ position, path: [r, i] })),
+    );
+  }
+
+  return [];
+}
+
+/**
+ * Lists the segment midpoints of a line or polygon, with the path a vertex inserted there gets
+ */
+function getMidpoints(
+  geometry: Geometry,
+): { position: Position; path: VertexPath }[] {
+  const lines =
+    geometry.type === 'LineString'
+      ? [geometry.coordinates]
+      : geometry.type === 'Polygon'
+        ? geometry.coordinates
+        : [];
+
+  return lines.flatMap((line, r) =>
+    line.slice(1).map((position, i) => ({
+      position: [
+        (line[i][0] + position[0]) / 2,
+        (line[i][1] + position[1]) / 2,
+      ],
+      path: geometry.type === 'Polygon' ? [r, i + 1] : [i + 1],
+    })),
+  );
+}
+
+/**
+ * Gives every feature of a collection an id
+ */
+function normalizeFeatures(collection: FeatureCollection): FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: collection.features.map((feature) =>
+      feature.id === undefined ? { ...feature, id: getNanoid() } : feature,
+    ),
+  };
+}
+
+/**
+ * Composable for drawing and editing points, lines and polygons
+ * Handles the map interactions of every mode, snapping, undo/redo, and
+ * produces the data to render through a GeoJSON source with the `layerIds` layers
+ *
+ * @param props - Configuration options for drawing
+ * @returns Drawn features, render data and actions
+ */
+export function useDraw({
+  map,
+  id,
+  features: initialFeatures = { type: 'FeatureCollection', features: [] },
+  mode: initialMode = DrawMode.Select,
+  snap = true,
+  snapDistance = 10,
+  historyLimit = 50,
+  circleSteps = 64,
+  debug = false,
+  onChange,
+  onCreate,
+  onDelete,
+}: DrawProps): DrawActions {
+  const { logError } = useLogger(debug);
+  const sourceId = getNanoid(id);
+  const layerIds: DrawLayerIds = {
+    fill: `${sourceId}-fill`,
+    line: `${sourceId}-line`,
+    point: `${sourceId}-point`,
+  };
+
+  const features = shallowRef<FeatureCollection>(
+    normalizeFeatures(initialFeatures),
+  );
+  const currentMode = ref<DrawMode>(initialMode);
+  const currentSelectedId = ref<Nullable<DrawFeatureId>>(null);
+  const selectedVertex = shallowRef<Nullable<VertexPath>>(null);
+  const drawingPositions = shallowRef<Position[]>([]);
+  const pointerPosition = shallowRef<Nullable<Position>>(null);
+  const undoStack = shallowRef<FeatureCollection[]>([]);
+  const redoStack = shallowRef<FeatureCollection[]>([]);
+  let drag: Nullable<DragState> = null;
+  let completedAt = 0;
+  let doubleClickZoomEnabled: Nullable<boolean> = null;
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const mode = computed(() => currentMode.value);
+  const selectedId = computed(() => currentSelectedId.value);
+  const canUndo = computed(() => undoStack.value.length > 0);
+  const canRedo = computed(() => redoStack.value.length > 0);
+  const selectedFeature = computed(() =>
+    features.value.features.find(
+      (feature) => feature.id === currentSelectedId.value,
+    ),
+  );
+
+  const drawingGeometry = computed((): Nullable<Geometry> => {
+    const positions = drawingPositions.value;
+    const pointer = pointerPosition.value;
+
+    if (!positions.length) return null;
+
+    const preview = pointer ? [...positions, pointer] : positions;
+
+    switch (currentMode.value) {
+      case DrawMode.DrawLine:
+        return preview.length >= 2
+          ? { type: 'LineString', coordinates: preview }
+          : null;
+      case DrawMode.DrawPolygon:
+        if (preview.length >= 3) {
+          return { type: 'Polygon', coordinates: [[...preview, preview[0]]] };
+        }
+        return preview.length === 2
+          ? { type: 'LineString', coordinates: preview }
+          : null;
+      case DrawMode.DrawRectangle:
+        return pointer
+          ? {
+              type: 'Polygon',
+              coordinates: [createRectangleRing(positions[0], pointer)],
+            }
+          : null;
+      case DrawMode.DrawCircle:
+        return pointer
+          ? {
+              type: 'Polygon',
+              coordinates: [
+                createCircleRing(
+                  positions[0],
+                  getDistance(positions[0], pointer),
+                  circleSteps,
+                ),
+              ],
+            }
+          : null;
+      default:
+        return null;
+    }
+  });
+
+  const renderData = computed((): FeatureCollection => {
+    const toRender = (
+      geometry: Geometry,
+      properties: GeoJsonProperties,
+    ): Feature => ({ type: 'Feature', geometry, properties });
+
+    const rendered = features.value.features.map((feature) =>
+      toRender(feature.geometry, {
+        meta: 'feature',
+        featureId: feature.id,
+        selected: feature.id === currentSelectedId.value,
+      }),
+    );
+
+    if (drawingGeometry.value) {
+      rendered.push(
+        toRender(drawingGeometry.value, {
+          meta: 'feature',
+          featureId: null,
+          selected: true,
+        }),
+      );
+    }
+
+    drawingPositions.value.forEach((position) => {
+      rendered.push(
+        toRender(
+          { type: 'Point', coordinates: position },
+          { meta: 'vertex', featureId: null, selected: false },
+        ),
+      );
+    });
+
+    const feature = selectedFeature.value;
+
+    if (currentMode.value === DrawMode.DirectSelect && feature) {
+      getMidpoints(feature.geometry).forEach(({ position, path }) => {
+        rendered.push(
+          toRender(
+            { type: 'Point', coordinates: position },
+            { meta: 'midpoint', featureId: feature.id, path: path.join(',') },
+          ),
+        );
+      });
+
+      getVertices(feature.geometry).forEach(({ position, path }) => {
+        rendered.push(
+          toRender(
+            { type: 'Point', coordinates: position },
+            {
+              meta: 'vertex',
+              featureId: feature.id,
+              path: path.join(','),
+              selected: path.join(',') === selectedVertex.value?.join(','),
+            },
+          ),
+        );
+      });
+    }
+
+    return { type: 'FeatureCollection', features: rendered };
+  });
+
+  /**
+   * Records a state in the undo history
+   * @param previous - Features before the change
+   */
+  function pushHistory(previous: FeatureCollection): void {
+    undoStack.value = [...undoStack.value, previous].slice(-historyLimit);
+    redoStack.value = [];
+  }
+
+  /**
+   * Replaces the features as one undoable change
+   * @param next - New features
+   */
+  function commit(next: FeatureCollection): void {
+    pushHistory(features.value);
+    features.value = next;
+    onChange?.(next);
+  }
+
+  /**
+   * Replaces the geometry of a feature without recording history
+   * @param featureId - Feature to update
+   * @param update - Returns the new geometry, or null to keep the current one
+   */
+  function updateGeometry(
+    featureId: DrawFeatureId,
+    update: (geometry: Geometry) => Nullable<Geometry>,
+  ): FeatureCollection {
+    return {
+      ...features.value,
+      features: features.value.features.map((feature) =>
+        feature.id === featureId
+          ? {
+              ...feature,
+              geometry: update(feature.geometry) ?? feature.geometry,
+            }
+          : feature,
+      ),
+    };
+  }
+
+  /**
+   * Drops the selection if the selected feature no longer exists
+   */
+  function validateSelection(): void {
+    selectedVertex.value = null;
+
+    if (selectedFeature.value) return;
+
+    currentSelectedId.value = null;
+    if (currentMode.value === DrawMode.DirectSelect) {
+      currentMode.value = DrawMode.Select;
+    }
+  }
+
+  /**
+   * Checks whether a position is within the snapping distance of a screen point
+   */
+  function isNear(position: Position, point: Point): boolean {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef) return false;
+
+    const projected = mapRef.project(position as LngLatLike);
+    return (
+      Math.hypot(projected.x - point.x, projected.y - point.y) <= snapDistance
+    );
+  }
+
+  /**
+   * Gets the pointer position, snapped to the closest vertex within the snapping distance
+   * @param e - Map mouse event
+   * @param excludeId - Feature whose vertices are ignored, such as the one being edited
+   */
+  function getPointerPosition(
+    e: MapMouseEvent,
+    excludeId?: DrawFeatureId,
+  ): Position {
+    const position = [e.lngLat.lng, e.lngLat.lat];
+    const mapRef = mapInstance.value;
+
+    if (!snap || !mapRef) return position;
+
+    const candidates = features.value.features
+      .filter((feature) => feature.id !== excludeId)
+      .flatMap((feature) => getGeometryPositions(feature.geometry))
+      .concat(drawingPositions.value);
+
+    let snapped: Nullable<Position> = null;
+    let closest = snapDistance;
+
+    candidates.forEach((candidate) => {
+      const projected = mapRef.project(candidate as LngLatLike);
+      const distance = Math.hypot(
+        projected.x - e.point.x,
+        projected.y - e.point.y,
+      );
+
+      if (distance <= closest) {
+        snapped = candidate;
+        closest = distance;
+      }
+    });
+
+    return snapped ?? position;
+  }
+
+  /**
+   * Queries the rendered draw features around a screen point
+   */
+  function queryDrawFeatures(point: Point): MapGeoJSONFeature[] {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef) return [];
+
+    const layers = Object.values(layerIds).filter((layerId) =>
+      hasLayer(mapRef, layerId),
+    );
+
+    if (!layers.length) return [];
+
+    return mapRef.queryRenderedFeatures(
+      [
+        [point.x - HIT_TOLERANCE, point.y - HIT_TOLERANCE],
+        [point.x + HIT_TOLERANCE, point.y + HIT_TOLERANCE],
+      ],
+      { layers },
+    );
+  }
+
+  /**
+   * Finds a rendered feature of the given kind, such as a vertex
+   */
+  function findHit(
+    hits: MapGeoJSONFeature[],
+    meta: string,
+  ): MapGeoJSONFeature | undefined {
+    return hits.find(
+      (hit) =>
+        hit.properties.meta === meta &&
+        hit.properties.featureId !== undefined &&
+        hit.properties.featureId !== null,
+    );
+  }
+
+  /**
+   * Parses the vertex path stored on a rendered vertex or midpoint
+   */
+  function getHitPath(hit: MapGeoJSONFeature): VertexPath {
+    return String(hit.properties.path).split(',').map(Number);
+  }
+
+  /**
+   * Adds a drawn feature and selects it
+   */
+  function completeFeature(
+    geometry: Geometry,
+    properties: GeoJsonProperties = {},
+  ): void {
+    const feature: Feature = {
+      type: 'Feature',
+      id: getNanoid(),
+      properties,
+      geometry,
+    };
+
+    commit({
+      ...features.value,
+      features: [...features.value.features, feature],
+    });
+    completedAt = Date.now();
+
+    setMode(DrawMode.Select);
+    currentSelectedId.value = feature.id!;
+    onCreate?.(feature);
+  }
+
+  /**
+   * Finishes the feature being drawn, if it has enough vertices
+   */
+  function finishDrawing(): void {
+    const positions = drawingPositions.value;
+    const pointer = pointerPosition.value;
+
+    switch (currentMode.value) {
+      case DrawMode.DrawLine:
+        if (positions.length >= 2) {
+          completeFeature({ type: 'LineString', coordinates: positions });
+        }
+        break;
+      case DrawMode.DrawPolygon:
+        if (positions.length >= 3) {
+          completeFeature({
+            type: 'Polygon',
+            coordinates: [[...positions, positions[0]]],
+          });
+        }
+        break;
+      case DrawMode.DrawRectangle:
+        if (
+          positions.length &&
+          pointer &&
+          pointer[0] !== positions[0][0] &&
+          pointer[1] !== positions[0][1]
+        ) {
+          completeFeature(
+            {
+              type: 'Polygon',
+              coordinates: [createRectangleRing(positions[0], pointer)],
+            },
+            { shape: 'rectangle' },
+          );
+        }
+        break;
+      case DrawMode.DrawCircle:
+        if (positions.length && pointer) {
+          const radius = getDistance(positions[0], pointer);
+
+          if (radius > 0) {
+            completeFeature(
+              {
+                type: 'Polygon',
+                coordinates: [
+                  createCircleRing(positions[0], radius, circleSteps),
+                ],
+              },
+              { shape: 'circle', center: positions[0], radius },
+            );
+          }
+        }
+        break;
+    }
+  }
+
+  /**
+   * Discards the feature being drawn
+   */
+  function cancelDrawing(): void {
+    drawingPositions.value = [];
+    pointerPosition.value = null;
+  }
+
+  /**
+   * Switches the interaction mode, discarding any unfinished drawing
+   * @param nextMode - Mode to switch to
+   */
+  function setMode(nextMode: DrawMode): void {
+    cancelDrawing();
+    drag = null;
+    selectedVertex.value = null;
+
+    if (nextMode === DrawMode.DirectSelect && !selectedFeature.value) {
+      nextMode = DrawMode.Select;
+    }
+
+    if (
+      DRAW_MODES.includes(nextMode) ||
+      nextMode === DrawMode.Static ||
+      nextMode === DrawMode.Delete
+    ) {
+      currentSelectedId.value = null;
+    }
+
+    currentMode.value = nextMode;
+  }
+
+  /**
+   * Replaces the features and resets the undo history
+   * @param collection - New features, features without an id get one
+   */
+  function setFeatures(collection: FeatureCollection): void {
+    features.value = normalizeFeatures(collection);
+    undoStack.value = [];
+    redoStack.value = [];
+    drag = null;
+    validateSelection();
+  }
+
+  /**
+   * Selects a feature, or clears the selection
+   * @param featureId - Feature to select, null to clear the selection
+   */
+  function select(featureId: Nullable<DrawFeatureId>): void {
+    currentSelectedId.value = featureId;
+    validateSelection();
+  }
+
+  /**
+   * Deletes a feature
+   * @param featureId - Feature to delete
+   */
+  function deleteFeature(featureId: DrawFeatureId): void {
+    const feature = features.value.features.find(
+      (item) => item.id === featureId,
+    );
+
+    if (!feature) return;
+
+    commit({
+      ...features.value,
+      features: features.value.features.filter((item) => item !== feature),
+    });
+    validateSelection();
+    onDelete?.(feature);
+  }
+
+  /**
+   * Deletes the selected vertex when editing vertices, otherwise the selected feature
+   */
+  function deleteSelected(): void {
+    const featureId = currentSelectedId.value;
+
+    if (featureId === null) return;
+
+    const path = selectedVertex.value;
+
+    if (currentMode.value === DrawMode.DirectSelect && path) {
+      let removed = false;
+      const next = updateGeometry(featureId, (geometry) => {
+        const edited = editPositions(geometry, path, (positions, index) =>
+          positions.splice(index, 1),
+        );
+        removed = !!edited;
+        return edited;
+      });
+
+      if (removed) commit(next);
+      selectedVertex.value = null;
+      return;
+    }
+
+    deleteFeature(featureId);
+  }
+
+  /**
+   * Restores the features before the last change
+   */
+  function undo(): void {
+    const previous = undoStack.value[undoStack.value.length - 1];
+
+    if (!previous) return;
+
+    undoStack.value = undoStack.value.slice(0, -1);
+    redoStack.value = [...redoStack.value, features.value];
+    features.value = previous;
+    cancelDrawing();
+    validateSelection();
+    onChange?.(previous);
+  }
+
+  /**
+   * Applies the last undone change again
+   */
+  function redo(): void {
+    const next = redoStack.value[redoStack.value.length - 1];
+
+    if (!next) return;
+
+    redoStack.value = redoStack.value.slice(0, -1);
+    undoStack.value = [...undoStack.value, features.value];
+    features.value = next;
+    cancelDrawing();
+    validateSelection();
+    onChange?.(next);
+  }
+
+  /**
+   * Handles clicks in the select and direct select modes
+   */
+  function handleSelectClick(e: MapMouseEvent): void {
+    const hits = queryDrawFeatures(e.point);
+    const vertex = findHit(hits, 'vertex');
+
+    if (currentMode.value === DrawMode.DirectSelect && vertex) {
+      selectedVertex.value = getHitPath(vertex);
+      return;
+    }
+
+    const hit = findHit(hits, 'feature');
+
+    if (!hit) {
+      if (currentMode.value === DrawMode.DirectSelect) {
+        setMode(DrawMode.Select);
+      }
+      select(null);
+      return;
+    }
+
+    if (hit.properties.featureId !== currentSelectedId.value) {
+      select(hit.properties.featureId);
+    }
+  }
+
+  /**
+   * Handles map clicks for the current mode
+   */
+  function onClick(e: MapMouseEvent): void {
+    try {
+      const position = getPointerPosition(e);
+      const positions = drawingPositions.value;
+
+      switch (currentMode.value) {
+        case DrawMode.DrawPoint:
+          completeFeature({ type: 'Point', coordinates: position });
+          break;
+        case DrawMode.DrawLine:
+        case DrawMode.DrawPolygon: {
+          const last = positions[positions.length - 1];
+
+          // Clicking the first vertex closes the polygon
+          if (
+            currentMode.value === DrawMode.DrawPolygon &&
+            positions.length >= 3 &&
+            isNear(positions[0], e.point)
+          ) {
+            finishDrawing();
+            return;
+          }
+
+          // Second click of a double click, which finishes the drawing
+          if (last && isNear(last, e.point)) return;
+
+          drawingPositions.value = [...positions, position];
+          break;
+        }
+        case DrawMode.DrawRectangle:
+        case DrawMode.DrawCircle:
+          if (!positions.length) {
+            drawingPositions.value = [position];
+          } else {
+            pointerPosition.value = position;
+            finishDrawing();
+          }
+          break;
+        case DrawMode.Select:
+        case DrawMode.DirectSelect:
+          handleSelectClick(e);
+          break;
+        case DrawMode.Delete: {
+          const hit = findHit(queryDrawFeatures(e.point), 'feature');
+          if (hit) deleteFeature(hit.properties.featureId);
+          break;
+        }
+      }
+    } catch (error) {
+      logError('Error handling draw click:', error, {
+        mode: currentMode.value,
+      });
+    }
+  }
+
+  /**
+   * Finishes lines and polygons, or starts editing the vertices of a feature
+   */
+  function onDblClick(e: MapMouseEvent): void {
+    try {
+      if (
+        currentMode.value === DrawMode.DrawLine ||
+        currentMode.value === DrawMode.DrawPolygon
+      ) {
+        finishDrawing();
+        return;
+      }
+
+      if (
+        currentMode.value !== DrawMode.Select ||
+        Date.now() - completedAt < DBLCLICK_GUARD
+      ) {
+        return;
+      }
+
+      const hit = findHit(queryDrawFeatures(e.point), 'feature');
+
+      if (hit) {
+        select(hit.properties.featureId);
+        setMode(DrawMode.DirectSelect);
+      }
+    } catch (error) {
+      logError('Error handling draw double click:', error);
+    }
+  }
+
+  /**
+   * Starts dragging a feature or one of its vertices
+   */
+  function onMouseDown(e: MapMouseEvent): void {
+    try {
+      const currentModeVal = currentMode.value;
+
+      if (
+        currentModeVal !== DrawMode.Select &&
+        currentModeVal !== DrawMode.DirectSelect &&
+        currentModeVal !== DrawMode.Move
+      ) {
+        return;
+      }
+
+      const hits = queryDrawFeatures(e.point);
+      const snapshot = features.value;
+      const last = [e.lngLat.lng, e.lngLat.lat];
+
+      if (currentModeVal === DrawMode.DirectSelect) {
+        const vertex = findHit(hits, 'vertex');
+        const midpoint = findHit(hits, 'midpoint');
+
+        if (vertex || midpoint) {
+          const hit = (vertex ?? midpoint)!;
+          const featureId = hit.properties.featureId;
+          const path = getHitPath(hit);
+
+          // Dragging a midpoint inserts a new vertex there
+          if (!vertex) {
+            features.value = updateGeometry(featureId, (geometry) =>
+              editPositions(geometry, path, (positions, index) =>
+                positions.splice(index, 0, last),
+              ),
+            );
+          }
+
+          e.preventDefault();
+          selectedVertex.value = path;
+          drag = { featureId, path, last, snapshot, moved: !vertex };
+          return;
+        }
+      }
+
+      const hit = findHit(hits, 'feature');
+
+      if (!hit) return;
+
+      const featureId = hit.properties.featureId;
+
+      if (
+        currentModeVal === DrawMode.DirectSelect &&
+        featureId !== currentSelectedId.value
+      ) {
+        return;
+      }
+
+      if (currentModeVal === DrawMode.Select) select(featureId);
+
+      // Prevents the map from panning while the feature is dragged
+      e.preventDefault();
+      drag = { featureId, path: null, last, snapshot, moved: false };
+    } catch (error) {
+      logError('Error starting draw drag:', error);
+    }
+  }
+
+  /**
+   * Updates the drag, or the preview of the feature being drawn
+   */
+  function onMouseMove(e: MapMouseEvent): void {
+    try {
+      if (drag) {
+        const { featureId, path, last } = drag;
+
+        if (path) {
+          const position = getPointerPosition(e, featureId);
+          features.value = updateGeometry(featureId, (geometry) =>
+            editPositions(geometry, path, (positions, index) => {
+              positions[index] = position;
+            }),
+          );
+        } else {
+          const current = [e.lngLat.lng, e.lngLat.lat];
+          features.value = updateGeometry(featureId, (geometry) =>
+            translateGeometry(
+              geometry,
+              current[0] - last[0],
+              current[1] - last[1],
+            ),
+          );
+          drag.last = current;
+        }
+
+        drag.moved = true;
+        return;
+      }
+
+      if (
+        DRAW_MODES.includes(currentMode.value) &&
+        drawingPositions.value.length
+      ) {
+        pointerPosition.value = getPointerPosition(e);
+      }
+    } catch (error) {
+      logError('Error updating draw drag:', error);
+    }
+  }
+
+  /**
+   * Ends the drag and records it as one undoable change
+   */
+  function onMouseUp(): void {
+    if (!drag) return;
+
+    const { snapshot, moved } = drag;
+    drag = null;
+
+    if (!moved) return;
+
+    pushHistory(snapshot);
+    onChange?.(features.value);
+  }
+
+  /**
+   * Keyboard shortcuts: Escape, Enter, Delete/Backspace, Ctrl+Z and Ctrl+Y
+   */
+  function onKeyDown(e: KeyboardEvent): void {
+    if (currentMode.value === DrawMode.Static) return;
+
+    const target = e.target as HTMLElement;
+    if (
+      target.isContentEditable ||
+      ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+    ) {
+      return;
+    }
+
+    const key = e.key.toLowerCase();
+    const withModifier = e.ctrlKey || e.metaKey;
+
+    if (key === 'escape') {
+      if (drawingPositions.value.length) cancelDrawing();
+      else if (currentMode.value === DrawMode.DirectSelect) {
+        setMode(DrawMode.Select);
+      } else select(null);
+    } else if (key === 'enter') {
+      finishDrawing();
+    } else if (key === 'delete' || key === 'backspace') {
+      deleteSelected();
+    } else if (withModifier && key === 'z') {
+      e.preventDefault();
+      if (e.shiftKey) redo();
+      else undo();
+    } else if (withModifier && key === 'y') {
+      e.preventDefault();
+      redo();
+    }
+  }
+
+  /**
+   * Restores double click zoom once the map is no longer edited
+   */
+  function restoreDoubleClickZoom(mapRef: Map): void {
+    if (doubleClickZoomEnabled) mapRef.doubleClickZoom.enable();
+    doubleClickZoomEnabled = null;
+  }
+
+  useMapEventListener({
+    map,
+    event: 'click',
+    on: (e) => onClick(e as MapMouseEvent),
+    debug,
+  });
+  useMapEventListener({
+    map,
+    event: 'dblclick',
+    on: (e) => onDblClick(e as MapMouseEvent),
+    debug,
+  });
+  useMapEventListener({
+    map,
+    event: 'mousedown',
+    on: (e) => onMouseDown(e as MapMouseEvent),
+    debug,
+  });
+  useMapEventListener({
+    map,
+    event: 'mousemove',
+    on: (e) => onMouseMove(e as MapMouseEvent),
+    debug,
+  });
+  useMapEventListener({ map, event: 'mouseup', on: onMouseUp, debug });
+
+  // Keyboard shortcuts reach the map container while the canvas has focus
+  const stopKeyboardWatcher = watch(
+    mapInstance,
+    (mapRef, _, onCleanup) => {
+      if (!mapRef) return;
+
+      const container = mapRef.getContainer();
+      container.addEventListener('keydown', onKeyDown);
+      onCleanup(() => container.removeEventListener('keydown', onKeyDown));
+    },
+    { immediate: true },
+  );
+
+  // Double click is used by the drawing and editing modes, and the cursor shows drawing
+  const stopModeWatcher = watch(
+    [mapInstance, currentMode],
+    ([mapRef, modeVal]) => {
+      if (!mapRef) return;
+
+      try {
+        if (modeVal === DrawMode.Static) {
+          restoreDoubleClickZoom(mapRef);
+        } else if (doubleClickZoomEnabled === null) {
+          doubleClickZoomEnabled = mapRef.doubleClickZoom.isEnabled();
+          mapRef.doubleClickZoom.disable();
+        }
+
+        mapRef.getCanvas().style.cursor = DRAW_MODES.includes(modeVal)
+          ? 'crosshair'
+          : '';
+      } catch (error) {
+        logError('Error updating draw mode interactions:', error);
+      }
+    },
+    { immediate: true },
+  );
+
+  onUnmounted(() => {
+    stopKeyboardWatcher();
+    stopModeWatcher();
+
+    const mapRef = mapInstance.value;
+    if (!mapRef) return;
+
+    restoreDoubleClickZoom(mapRef);
+    mapRef.getCanvas().style.cursor = '';
+  });
+
+  return {
+    sourceId,
+    layerIds,
+    features,
+    renderData,
+    mode,
+    selectedId,
+    canUndo,
+    canRedo,
+    setMode,
+    setFeatures,
+    select,
+    deleteFeature,
+    deleteSelected,
+    finishDrawing,
+    cancelDrawing,
+    undo,
+    redo,
+  };
+}
@@ -0,0 +1,5 @@
+export * from './useFeatureState';
+export * from './useHoverState';
+export * from './useFeatureSelection';
+export * from './useQueryFeatures';
+export * from './useBoxSelect';
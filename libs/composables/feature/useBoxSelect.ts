@@ -0,0 +1,423 @@
+import { computed, shallowRef, unref, watch, onUnmounted } from 'vue';
+import {
+  useLogger,
+  useMapEventListener,
+  useMapReloadEvent,
+} from '@libs/composables';
+import {
+  dedupeFeatures,
+  geometryIntersectsPolygon,
+  hasLayer,
+  mapGeometryPositions,
+} from '@libs/helpers';
+import type { ComputedRef, MaybeRef, ShallowRef } from 'vue';
+import type { Nullable, Undefinedable } from '@libs/types';
+import type { Position } from 'geojson';
+import type {
+  Map,
+  FilterSpecification,
+  MapGeoJSONFeature,
+  MapMouseEvent,
+} from 'maplibre-gl';
+
+/**
+ * Shape drawn to select features: a rectangle or a freehand polygon
+ */
+export type BoxSelectMode = 'box' | 'lasso';
+
+/**
+ * Key held while dragging to start a selection
+ */
+export type BoxSelectModifier = 'shift' | 'alt' | 'ctrl' | 'meta';
+
+interface BoxSelectProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Layers whose features can be selected */
+  layers: MaybeRef<string[]>;
+  filter?: MaybeRef<Undefinedable<FilterSpecification>>;
+  /** Selection shape (default: 'box') */
+  mode?: MaybeRef<BoxSelectMode>;
+  /** Key that starts a selection when dragging (default: 'shift') */
+  modifier?: BoxSelectModifier;
+  enabled?: MaybeRef<boolean>;
+  /** Feature state property set on selected features, `true` for 'selected' */
+  featureState?: boolean | string;
+  onSelect?: (features: MapGeoJSONFeature[]) => void;
+  debug?: boolean;
+}
+
+interface BoxSelectActions {
+  selectedFeatures: ShallowRef<MapGeoJSONFeature[]>;
+  /** Screen outline of the selection being drawn */
+  selectionShape: ShallowRef<Nullable<Position[]>>;
+  isSelecting: ComputedRef<boolean>;
+  selectWithin: (polygon: Position[]) => MapGeoJSONFeature[];
+  cancelSelection: () => void;
+  clearSelection: () => void;
+}
+
+const MODIFIER_KEYS: Record<BoxSelectModifier, keyof MouseEvent> = {
+  shift: 'shiftKey',
+  alt: 'altKey',
+  ctrl: 'ctrlKey',
+  meta: 'metaKey',
+};
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+
+// Pointer moves shorter than this many pixels are ignored
+const MIN_DRAG_DISTANCE = 3;
+
+/**
+ * Checks whether a polygon is a screen aligned rectangle
+ */
+function isRectangle(polygon: Position[]): boolean {
+  if (polygon.length !== 4) return false;
+
+  // Edges alternate between horizontal and vertical, starting with either
+  const alternates = (offset: number): boolean =>
+    polygon.every(([x, y], index) => {
+      const [nextX, nextY] = polygon[(index + 1) % 4];
+      return (index + offset) % 2 === 0 ? y === nextY : x === nextX;
+    });
+
+  return alternates(0) || alternates(1);
+}
+
+/**
+ * Composable for selecting many features at once by dragging a shape
+ * A modifier drag draws a rectangle, or a freehand lasso in lasso mode,
+ * and selects the rendered features of the given layers inside it
+ *
+ * @param props - Configuration options for the selection
+ * @returns The selected features and actions to change the selection
+ */
+export function useBoxSelect({
+  map,
+  layers,
+  filter,
+  mode = 'box',
+  modifier = 'shift',
+  enabled = true,
+  featureState = false,
+  onSelect,
+  debug = false,
+}: BoxSelectProps): BoxSelectActions {
+  const { logError } = useLogger(debug);
+  const selectedFeatures = shallowRef<MapGeoJSONFeature[]>([]);
+  const selectionShape = shallowRef<Nullable<Position[]>>(null);
+  const stateKey =
+    typeof featureState === 'string'
+      ? featureState
+      : featureState
+        ? 'selected'
+        : null;
+  let start: Nullable<Position> = null;
+  let overlay: Nullable<HTMLElement | SVGSVGElement> = null;
+  let boxZoomEnabled: Nullable<boolean> = null;
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const selectionMode = computed(() => unref(mode));
+  const isEnabled = computed(() => unref(enabled));
+  const isSelecting = computed(() => !!selectionShape.value);
+
+  /**
+   * Converts a DOM mouse event to a point relative to the canvas container
+   */
+  function getPoint(mapRef: Map, e: MouseEvent): Position {
+    const container = mapRef.getCanvasContainer();
+    const rect = container.getBoundingClientRect();
+
+    return [
+      e.clientX - rect.left - container.clientLeft,
+      e.clientY - rect.top - container.clientTop,
+    ];
+  }
+
+  /**
+   * Writes or removes the selection feature state of features
+   */
+  function writeState(
+    mapRef: Map,
+    features: MapGeoJSONFeature[],
+    value: boolean,
+  ): void {
+    if (!stateKey) return;
+
+    features.forEach(({ id, source, sourceLayer }) => {
+      if (id === undefined || !mapRef.getSource(source)) return;
+
+      const target = { id, source, sourceLayer };
+      if (value) mapRef.setFeatureState(target, { [stateKey]: true });
+      else mapRef.removeFeatureState(target, stateKey);
+    });
+  }
+
+  /**
+   * Replaces the selection
+   */
+  function setSelection(features: MapGeoJSONFeature[]): void {
+    const mapRef = mapInstance.value;
+
+    try {
+      if (mapRef?.style) {
+        writeState(mapRef, selectedFeatures.value, false);
+        writeState(mapRef, features, true);
+      }
+    } catch (error) {
+      logError('Error updating selection feature state:', error);
+    }
+
+    selectedFeatures.value = features;
+    onSelect?.(features);
+  }
+
+  /**
+   * Selects the rendered features inside a screen polygon
+   * @param polygon - Polygon vertices in pixels relative to the map container
+   * @returns The selected features
+   */
+  function selectWithin(polygon: Position[]): MapGeoJSONFeature[] {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef || !mapRef.style || polygon.length < 3) return [];
+
+    try {
+      const existingLayers = unref(layers).filter((layerId) =>
+        hasLayer(mapRef, layerId),
+      );
+      if (!existingLayers.length) {
+        setSelection([]);
+        return [];
+      }
+
+      const xs = polygon.map(([x]) => x);
+      const ys = polygon.map(([, y]) => y);
+      const results = mapRef.queryRenderedFeatures(
+        [
+          [Math.min(...xs), Math.min(...ys)],
+          [Math.max(...xs), Math.max(...ys)],
+        ],
+        { layers: existingLayers, filter: unref(filter) },
+      );
+
+      // The bounding box query is exact for rectangles, other shapes keep
+      // the features intersecting the polygon on screen
+      const exact = isRectangle(polygon);
+      const features = dedupeFeatures(results).filter(
+        (feature) =>
+          exact ||
+          geometryIntersectsPolygon(
+            mapGeometryPositions(feature.geometry, ([lng, lat]) => {
+              const { x, y } = mapRef.project([lng, lat]);
+              return [x, y];
+            }),
+            polygon,
+          ),
+      );
+
+      setSelection(features);
+      return features;
+    } catch (error) {
+      logError('Error selecting features:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Clears the selection
+   */
+  function clearSelection(): void {
+    setSelection([]);
+  }
+
+  /**
+   * Draws the selection shape over the map
+   */
+  function renderOverlay(mapRef: Map, shape: Position[]): void {
+    const container = mapRef.getCanvasContainer();
+
+    if (selectionMode.value === 'box') {
+      // Reuses the look of the MapLibre box zoom rectangle
+      if (!overlay) {
+        overlay = document.createElement('div');
+        overlay.classList.add('maplibregl-boxzoom');
+        container.appendChild(overlay);
+      }
+
+      const [[x1, y1], , [x2, y2]] = shape;
+      overlay.style.transform = `translate(${Math.min(x1, x2)}px, ${Math.min(y1, y2)}px)`;
+      overlay.style.width = `${Math.abs(x2 - x1)}px`;
+      overlay.style.height = `${Math.abs(y2 - y1)}px`;
+      return;
+    }
+
+    if (!overlay) {
+      overlay = document.createElementNS(SVG_NAMESPACE, 'svg');
+      overlay.classList.add('maplibregl-lasso');
+      overlay.setAttribute(
+        'style',
+        'position:absolute;top:0;left:0;width:100%;height:100%;pointer-events:none',
+      );
+
+      const polygon = document.createElementNS(SVG_NAMESPACE, 'polygon');
+      polygon.setAttribute('fill', 'rgba(59, 178, 208, 0.1)');
+      polygon.setAttribute('stroke', '#3bb2d0');
+      polygon.setAttribute('stroke-width', '2');
+      polygon.setAttribute('stroke-dasharray', '4 2');
+      overlay.appendChild(polygon);
+      container.appendChild(overlay);
+    }
+
+    overlay.firstElementChild?.setAttribute(
+      'points',
+      shape.map(([x, y]) => `${x},${y}`).join(' '),
+    );
+  }
+
+  /**
+   * Stops the selection being drawn without changing the selection
+   */
+  function cancelSelection(): void {
+    window.removeEventListener('mousemove', onWindowMouseMove);
+    window.removeEventListener('mouseup', onWindowMouseUp);
+    window.removeEventListener('keydown', onWindowKeyDown);
+
+    overlay?.remove();
+    overlay = null;
+    start = null;
+    selectionShape.value = null;
+  }
+
+  function onMouseDown(e: MapMouseEvent): void {
+    const event = e.originalEvent;
+
+    if (!isEnabled.value || event.button !== 0) return;
+    if (!event[MODIFIER_KEYS[modifier]]) return;
+
+    // Keeps the drag from panning the map
+    e.preventDefault();
+    cancelSelection();
+
+    start = [e.point.x, e.point.y];
+    window.addEventListener('mousemove', onWindowMouseMove);
+    window.addEventListener('mouseup', onWindowMouseUp);
+    window.addEventListener('keydown', onWindowKeyDown);
+  }
+
+  function onWindowMouseMove(e: MouseEvent): void {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef || !start) return;
+
+    const point = getPoint(mapRef, e);
+    const isBox = selectionMode.value === 'box';
+    const previous = selectionShape.value ?? [start];
+    // Clicks and tiny drags keep the current selection, the lasso also
+    // skips points too close to its last one
+    const [lastX, lastY] = isBox ? start : previous[previous.length - 1];
+
+    if (
+      (!isBox || !selectionShape.value) &&
+      Math.hypot(point[0] - lastX, point[1] - lastY) < MIN_DRAG_DISTANCE
+    ) {
+      return;
+    }
+
+    const shape = isBox
+      ? [start, [point[0], start[1]], point, [start[0], point[1]]]
+      : [...previous, point];
+
+    selectionShape.value = shape;
+
+    try {
+      renderOverlay(mapRef, shape);
+    } catch (error) {
+      logError('Error drawing selection shape:', error);
+    }
+  }
+
+  function onWindowMouseUp(e: MouseEvent): void {
+    if (e.button !== 0) return;
+
+    const shape = selectionShape.value;
+    cancelSelection();
+
+    if (shape) selectWithin(shape);
+  }
+
+  function onWindowKeyDown(e: KeyboardEvent): void {
+    if (e.key === 'Escape') cancelSelection();
+  }
+
+  /**
+   * Restores box zoom once shift drags are no longer used for selecting
+   */
+  function restoreBoxZoom(mapRef: Map): void {
+    if (boxZoomEnabled) mapRef.boxZoom.enable();
+    boxZoomEnabled = null;
+  }
+
+  useMapEventListener({
+    map,
+    event: 'mousedown',
+    on: (e) => onMouseDown(e as MapMouseEvent),
+    debug,
+  });
+
+  // Feature states are dropped with the style, so is the selection
+  useMapReloadEvent({
+    map,
+    callbacks: {
+      onLoad: () => {},
+      onUnload: () => {
+        cancelSelection();
+        selectedFeatures.value = [];
+      },
+    },
+    debug,
+  });
+
+  // Shift drags belong to box zoom, which is disabled while selecting is enabled
+  const stopEnabledWatcher = watch(
+    [mapInstance, isEnabled],
+    ([mapRef, enabledVal]) => {
+      if (!enabledVal) cancelSelection();
+      if (!mapRef || modifier !== 'shift') return;
+
+      try {
+        if (!enabledVal) {
+          restoreBoxZoom(mapRef);
+        } else if (boxZoomEnabled === null) {
+          boxZoomEnabled = mapRef.boxZoom.isEnabled();
+          mapRef.boxZoom.disable();
+        }
+      } catch (error) {
+        logError('Error updating box zoom:', error);
+      }
+    },
+    { immediate: true },
+  );
+
+  // A shape drawn in the other mode is dropped
+  const stopModeWatcher = watch(selectionMode, cancelSelection);
+
+  onUnmounted(() => {
+    stopEnabledWatcher();
+    stopModeWatcher();
+    cancelSelection();
+
+    const mapRef = mapInstance.value;
+    if (mapRef) restoreBoxZoom(mapRef);
+  });
+
+  return {
+    selectedFeatures,
+    selectionShape,
+    isSelecting,
+    selectWithin,
+    cancelSelection,
+    clearSelection,
+  };
+}
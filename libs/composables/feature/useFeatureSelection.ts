@@ -0,0 +1,128 @@
+import { computed, ref } from 'vue';
+import { useFeatureState, useLayerEventListener } from '@libs/composables';
+import type { ComputedRef, MaybeRef } from 'vue';
+import type { Nullable, Undefinedable } from '@libs/types';
+import type {
+  Map,
+  GeoJSONFeatureId,
+  LayerSpecification,
+  MapLayerMouseEvent,
+} from 'maplibre-gl';
+
+interface FeatureSelectionProps {
+  map: MaybeRef<Nullable<Map>>;
+  source: MaybeRef<string>;
+  sourceLayer?: MaybeRef<Undefinedable<string>>;
+  /** Layer whose clicked features toggle their selection */
+  layer?: MaybeRef<Nullable<LayerSpecification | string>>;
+  /** Allow several features to be selected at once */
+  multiple?: boolean;
+  /** Feature state property set on selected features (default: 'selected') */
+  key?: string;
+  debug?: boolean;
+}
+
+interface FeatureSelectionActions {
+  selectedIds: ComputedRef<GeoJSONFeatureId[]>;
+  select: (id: GeoJSONFeatureId) => void;
+  deselect: (id: GeoJSONFeatureId) => void;
+  toggle: (id: GeoJSONFeatureId) => void;
+  isSelected: (id: GeoJSONFeatureId) => boolean;
+  clearSelection: () => void;
+}
+
+/**
+ * Composable for selecting features of a source through their feature state
+ * Supports single and multi selection, and keeps the selection across style reloads
+ *
+ * @param props - Configuration options for the selection
+ * @returns The selected ids and actions to change the selection
+ */
+export function useFeatureSelection({
+  map,
+  source,
+  sourceLayer,
+  layer,
+  multiple = false,
+  key = 'selected',
+  debug = false,
+}: FeatureSelectionProps): FeatureSelectionActions {
+  const selected = ref<GeoJSONFeatureId[]>([]);
+  const { setState, removeState } = useFeatureState({
+    map,
+    source,
+    sourceLayer,
+    debug,
+  });
+
+  const selectedIds = computed(() => selected.value);
+
+  /**
+   * Checks whether a feature is selected
+   * @param id - Feature id
+   */
+  function isSelected(id: GeoJSONFeatureId): boolean {
+    return selected.value.includes(id);
+  }
+
+  /**
+   * Deselects a feature
+   * @param id - Feature id
+   */
+  function deselect(id: GeoJSONFeatureId): void {
+    if (!isSelected(id)) return;
+
+    selected.value = selected.value.filter((selectedId) => selectedId !== id);
+    removeState(id, key);
+  }
+
+  /**
+   * Clears the selection
+   */
+  function clearSelection(): void {
+    selected.value.forEach((id) => removeState(id, key));
+    selected.value = [];
+  }
+
+  /**
+   * Selects a feature, replacing the selection unless `multiple` is set
+   * @param id - Feature id
+   */
+  function select(id: GeoJSONFeatureId): void {
+    if (isSelected(id)) return;
+
+    if (!multiple) clearSelection();
+
+    selected.value = [...selected.value, id];
+    setState(id, { [key]: true });
+  }
+
+  /**
+   * Selects a feature or deselects it if it is selected
+   * @param id - Feature id
+   */
+  function toggle(id: GeoJSONFeatureId): void {
+    if (isSelected(id)) deselect(id);
+    else select(id);
+  }
+
+  useLayerEventListener<'click'>({
+    map,
+    layer: layer ?? null,
+    event: 'click',
+    on: (e: MapLayerMouseEvent) => {
+      const featureId = e.features?.[0]?.id;
+      if (featureId !== undefined) toggle(featureId);
+    },
+    debug,
+  });
+
+  return {
+    selectedIds,
+    select,
+    deselect,
+    toggle,
+    isSelected,
+    clearSelection,
+  };
+}
@@ -0,0 +1,191 @@
+import { computed, onUnmounted, reactive, unref } from 'vue';
+import { useLogger, useMapReloadEvent } from '@libs/composables';
+import { hasSource } from '@libs/helpers';
+import type { MaybeRef } from 'vue';
+import type { Nullable, Undefinedable } from '@libs/types';
+import type {
+  Map,
+  FeatureIdentifier,
+  GeoJSONFeatureId,
+  MapSourceDataEvent,
+} from 'maplibre-gl';
+
+export type FeatureStateValue = Record<string, any>;
+
+interface FeatureStateProps {
+  map: MaybeRef<Nullable<Map>>;
+  source: MaybeRef<string>;
+  sourceLayer?: MaybeRef<Undefinedable<string>>;
+  debug?: boolean;
+}
+
+export interface FeatureStateActions {
+  /** Reactive feature states keyed by feature id */
+  states: Readonly<Record<string, FeatureStateValue>>;
+  setState: (id: GeoJSONFeatureId, state: FeatureStateValue) => void;
+  removeState: (id: GeoJSONFeatureId, key?: string) => void;
+  getState: (id: GeoJSONFeatureId) => Undefinedable<FeatureStateValue>;
+  clearStates: (key?: string) => void;
+}
+
+/**
+ * Composable for managing the feature states of a source
+ * Keeps a reactive copy of the states it sets and applies them again after the
+ * style reloads, once the source is back on the map
+ *
+ * @param props - Configuration options for the feature states
+ * @returns Reactive states and actions to update them
+ */
+export function useFeatureState({
+  map: mapRef,
+  source,
+  sourceLayer,
+  debug = false,
+}: FeatureStateProps): FeatureStateActions {
+  const { logError } = useLogger(debug);
+  const states = reactive<Record<string, FeatureStateValue>>({});
+
+  // Computed property for better reactivity and performance
+  const mapInstance = computed(() => unref(mapRef));
+
+  useMapReloadEvent({
+    map: mapRef,
+    callbacks: {
+      onLoad: applyStates,
+      onUnload: (map) => map.off('sourcedata', sourcedataEventFn),
+    },
+    debug,
+  });
+
+  /**
+   * Builds the identifier of a feature of the source
+   * @param id - Feature id
+   */
+  function getFeatureIdentifier(id: GeoJSONFeatureId): FeatureIdentifier {
+    return {
+      source: unref(source),
+      sourceLayer: unref(sourceLayer),
+      id,
+    };
+  }
+
+  /**
+   * Applies the stored states once the source has been added back
+   * @param e - Map source data event
+   */
+  function sourcedataEventFn(e: MapSourceDataEvent): void {
+    if (e.sourceId !== unref(source)) return;
+
+    applyStates();
+  }
+
+  /**
+   * Applies all stored states to the map, waiting for the source if it is missing
+   */
+  function applyStates(): void {
+    const map = mapInstance.value;
+
+    if (!map) return;
+
+    map.off('sourcedata', sourcedataEventFn);
+
+    if (!hasSource(map, unref(source))) {
+      map.on('sourcedata', sourcedataEventFn);
+      return;
+    }
+
+    try {
+      Object.entries(states).forEach(([id, state]) => {
+        map.setFeatureState(getFeatureIdentifier(id), state);
+      });
+    } catch (error) {
+      logError('Error applying feature states:', error, {
+        source: unref(source),
+      });
+    }
+  }
+
+  /**
+   * Merges the given state into the state of a feature
+   * @param id - Feature id
+   * @param state - State properties to set
+   */
+  function setState(id: GeoJSONFeatureId, state: FeatureStateValue): void {
+    states[id] = { ...states[id], ...state };
+
+    const map = mapInstance.value;
+
+    if (!map) return;
+
+    // Applied together with the other states once the source is added
+    if (!hasSource(map, unref(source))) {
+      applyStates();
+      return;
+    }
+
+    try {
+      map.setFeatureState(getFeatureIdentifier(id), state);
+    } catch (error) {
+      logError('Error setting feature state:', error, { id });
+    }
+  }
+
+  /**
+   * Removes one state property of a feature, or its whole state
+   * @param id - Feature id
+   * @param key - State property to remove, omit to remove every property
+   */
+  function removeState(id: GeoJSONFeatureId, key?: string): void {
+    const current = states[id];
+
+    if (!current) return;
+
+    if (key) {
+      const rest = { ...current };
+      delete rest[key];
+
+      if (Object.keys(rest).length) states[id] = rest;
+      else delete states[id];
+    } else {
+      delete states[id];
+    }
+
+    const map = mapInstance.value;
+
+    if (!map || !hasSource(map, unref(source))) return;
+
+    try {
+      map.removeFeatureState(getFeatureIdentifier(id), key);
+    } catch (error) {
+      logError('Error removing feature state:', error, { id, key });
+    }
+  }
+
+  /**
+   * Gets the stored state of a feature
+   * @param id - Feature id
+   */
+  function getState(id: GeoJSONFeatureId): Undefinedable<FeatureStateValue> {
+    return states[id];
+  }
+
+  /**
+   * Removes one state property from every feature, or every state
+   * @param key - State property to remove, omit to remove every property
+   */
+  function clearStates(key?: string): void {
+    Object.keys(states).forEach((id) => removeState(id, key));
+  }
+
+  onUnmounted(() => {
+    mapInstance.value?.off('sourcedata', sourcedataEventFn);
+  });
+
+  return {
+    states,
+    setState,
+    removeState,
+    getState,
+    clearStates,
+  };
+}
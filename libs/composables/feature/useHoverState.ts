@@ -0,0 +1,158 @@
+import { computed, onUnmounted, shallowRef, unref } from 'vue';
+import {
+  useLayerEventListener,
+  useLogger,
+  useMapReloadEvent,
+} from '@libs/composables';
+import { hasSource } from '@libs/helpers';
+import type { ComputedRef, MaybeRef, ShallowRef } from 'vue';
+import type { Nullable, Undefinedable } from '@libs/types';
+import type {
+  Map,
+  GeoJSONFeatureId,
+  LayerSpecification,
+  MapGeoJSONFeature,
+  MapLayerMouseEvent,
+} from 'maplibre-gl';
+
+interface HoverStateProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Layer whose features get the hover state */
+  layer: MaybeRef<Nullable<LayerSpecification | string>>;
+  /** Feature state property set while a feature is hovered (default: 'hover') */
+  key?: string;
+  debug?: boolean;
+}
+
+interface HoverStateActions {
+  hoveredFeature: ShallowRef<Nullable<MapGeoJSONFeature>>;
+  hoveredId: ComputedRef<Undefinedable<GeoJSONFeatureId>>;
+  clearHover: () => void;
+}
+
+/**
+ * Composable for the hover state of the features of a layer
+ * Sets a feature state property on the feature under the pointer and clears it
+ * when the pointer moves to another feature or leaves the layer
+ *
+ * Features need an id, either on the feature or through the source's `promoteId`
+ *
+ * @param props - Configuration options for the hover state
+ * @returns The hovered feature and an action to clear it
+ */
+export function useHoverState({
+  map,
+  layer,
+  key = 'hover',
+  debug = false,
+}: HoverStateProps): HoverStateActions {
+  const { logError } = useLogger(debug);
+  const hoveredFeature = shallowRef<Nullable<MapGeoJSONFeature>>(null);
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const hoveredId = computed(() => hoveredFeature.value?.id);
+
+  // Feature states are dropped with the style, only the local state is left to reset
+  useMapReloadEvent({
+    map,
+    callbacks: {
+      onLoad: () => {},
+      onUnload: () => {
+        hoveredFeature.value = null;
+      },
+    },
+    debug,
+  });
+
+  /**
+   * Sets or clears the hover state of a feature
+   * @param feature - Feature to update
+   * @param hover - Whether the feature is hovered
+   */
+  function setHover(feature: MapGeoJSONFeature, hover: boolean): void {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef || !hasSource(mapRef, feature.source)) return;
+
+    try {
+      mapRef.setFeatureState(
+        {
+          source: feature.source,
+          sourceLayer: feature.sourceLayer,
+          id: feature.id,
+        },
+        { [key]: hover },
+      );
+    } catch (error) {
+      logError('Error setting hover state:', error, { id: feature.id });
+    }
+  }
+
+  /**
+   * Clears the hover state of the hovered feature
+   */
+  function clearHover(): void {
+    if (!hoveredFeature.value) return;
+
+    setHover(hoveredFeature.value, false);
+    hoveredFeature.value = null;
+  }
+
+  /**
+   * Moves the hover state to the feature under the pointer
+   * @param e - Layer mouse event
+   */
+  function onPointerMove(e: MapLayerMouseEvent): void {
+    const feature = e.features?.[0];
+
+    if (!feature || feature.id === undefined) return;
+
+    const current = hoveredFeature.value;
+
+    if (
+      current &&
+      current.id === feature.id &&
+      current.source === feature.source &&
+      current.sourceLayer === feature.sourceLayer
+    ) {
+      return;
+    }
+
+    clearHover();
+    setHover(feature, true);
+    hoveredFeature.value = feature;
+  }
+
+  useLayerEventListener<'mouseenter'>({
+    map,
+    layer,
+    event: 'mouseenter',
+    on: onPointerMove,
+    debug,
+  });
+
+  useLayerEventListener<'mousemove'>({
+    map,
+    layer,
+    event: 'mousemove',
+    on: onPointerMove,
+    debug,
+  });
+
+  useLayerEventListener<'mouseleave'>({
+    map,
+    layer,
+    event: 'mouseleave',
+    on: clearHover,
+    debug,
+  });
+
+  onUnmounted(clearHover);
+
+  return {
+    hoveredFeature,
+    hoveredId,
+    clearHover,
+  };
+}
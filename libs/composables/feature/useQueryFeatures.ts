@@ -0,0 +1,193 @@
+import { computed, shallowRef, unref, watch, onUnmounted } from 'vue';
+import { useLogger, useMapEventListener, useThrottle } from '@libs/composables';
+import { dedupeFeatures, hasLayer } from '@libs/helpers';
+import type { ComputedRef, MaybeRef, ShallowRef } from 'vue';
+import type { Nullable, Undefinedable } from '@libs/types';
+import type {
+  Map,
+  FilterSpecification,
+  LngLat,
+  MapGeoJSONFeature,
+  MapMouseEvent,
+  Point,
+  PointLike,
+} from 'maplibre-gl';
+
+/**
+ * Area queried for features: around the pointer, the whole viewport, or a screen bounding box
+ */
+export type QueryFeaturesTarget =
+  | 'pointer'
+  | 'viewport'
+  | [PointLike, PointLike];
+
+interface QueryFeaturesProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Layers to query, all layers when omitted */
+  layers?: MaybeRef<Undefinedable<string[]>>;
+  filter?: MaybeRef<Undefinedable<FilterSpecification>>;
+  /** Area to query (default: 'pointer') */
+  at?: MaybeRef<QueryFeaturesTarget>;
+  /** Pixels around the pointer included in pointer queries (default: 0) */
+  radius?: number;
+  /** Minimum time between two queries in milliseconds (default: 100) */
+  throttle?: number;
+  debug?: boolean;
+}
+
+interface QueryFeaturesActions {
+  features: ShallowRef<MapGeoJSONFeature[]>;
+  /** Topmost feature, the one under the pointer in pointer queries */
+  topFeature: ComputedRef<Nullable<MapGeoJSONFeature>>;
+  pointerPoint: ShallowRef<Nullable<Point>>;
+  pointerLngLat: ShallowRef<Nullable<LngLat>>;
+  refresh: () => void;
+}
+
+/**
+ * Composable for reactive rendered feature queries
+ * Queries again when the pointer moves, the map stops moving or source data changes,
+ * throttled so that at most one query runs per `throttle` milliseconds
+ *
+ * @param props - Configuration options for the query
+ * @returns Reactive query results
+ */
+export function useQueryFeatures({
+  map,
+  layers,
+  filter,
+  at = 'pointer',
+  radius = 0,
+  throttle = 100,
+  debug = false,
+}: QueryFeaturesProps): QueryFeaturesActions {
+  const { logError } = useLogger(debug);
+  const features = shallowRef<MapGeoJSONFeature[]>([]);
+  const pointerPoint = shallowRef<Nullable<Point>>(null);
+  const pointerLngLat = shallowRef<Nullable<LngLat>>(null);
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const target = computed(() => unref(at));
+  const topFeature = computed(() => features.value[0] ?? null);
+
+  /**
+   * Runs the query and updates the results
+   */
+  function runQuery(): void {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef || !mapRef.style) return;
+
+    try {
+      const layersVal = unref(layers);
+      const existingLayers = layersVal?.filter((layerId) =>
+        hasLayer(mapRef, layerId),
+      );
+
+      // Layers that are not added yet have nothing to return
+      if (existingLayers && !existingLayers.length) {
+        features.value = [];
+        return;
+      }
+
+      const options = { layers: existingLayers, filter: unref(filter) };
+      const targetVal = target.value;
+      let results: MapGeoJSONFeature[];
+
+      if (targetVal === 'viewport') {
+        results = mapRef.queryRenderedFeatures(options);
+      } else if (targetVal === 'pointer') {
+        const point = pointerPoint.value;
+
+        if (!point) {
+          features.value = [];
+          return;
+        }
+
+        results = mapRef.queryRenderedFeatures(
+          [
+            [point.x - radius, point.y - radius],
+            [point.x + radius, point.y + radius],
+          ],
+          options,
+        );
+      } else {
+        results = mapRef.queryRenderedFeatures(targetVal, options);
+      }
+
+      features.value = dedupeFeatures(results);
+    } catch (error) {
+      logError('Error querying rendered features:', error);
+    }
+  }
+
+  // Throttled rather than debounced, so results follow a moving pointer
+  const scheduleQuery = useThrottle(runQuery, { delay: throttle, debug });
+
+  /**
+   * Queries again right away
+   */
+  function refresh(): void {
+    scheduleQuery.cancel();
+    runQuery();
+  }
+
+  useMapEventListener({
+    map,
+    event: 'mousemove',
+    on: (e) => {
+      if (target.value !== 'pointer') return;
+
+      const { point, lngLat } = e as MapMouseEvent;
+      pointerPoint.value = point;
+      pointerLngLat.value = lngLat;
+      scheduleQuery();
+    },
+    debug,
+  });
+
+  useMapEventListener({
+    map,
+    event: 'mouseout',
+    on: () => {
+      if (target.value !== 'pointer') return;
+
+      scheduleQuery.cancel();
+      pointerPoint.value = null;
+      pointerLngLat.value = null;
+      features.value = [];
+    },
+    debug,
+  });
+
+  useMapEventListener({
+    map,
+    event: 'moveend',
+    on: () => scheduleQuery(),
+    debug,
+  });
+  useMapEventListener({
+    map,
+    event: 'sourcedata',
+    on: () => scheduleQuery(),
+    debug,
+  });
+
+  // Query options changed, or the map became available
+  const stopWatcher = watch(
+    [mapInstance, target, () => unref(layers), () => unref(filter)],
+    () => scheduleQuery(),
+    { immediate: true, deep: true },
+  );
+
+  onUnmounted(stopWatcher);
+
+  return {
+    features,
+    topFeature,
+    pointerPoint,
+    pointerLngLat,
+    refresh,
+  };
+}
@@ -4,3 +4,5 @@ export * from './event';
 export * from './control';
 export * from './sources';
 export * from './layers';
+export * from './feature';
+export * from './draw';
@@ -3,3 +3,7 @@ export * from './useCreateFillLayer';
 export * from './useCreateCircleLayer';
 export * from './useCreateLineLayer';
 export * from './useCreateSymbolLayer';
+export * from './useCreateRasterLayer';
+export * from './useCreateHillshadeLayer';
+export * from './useCreateHeatmapLayer';
+export * from './useCreateFillExtrusionLayer';
@@ -0,0 +1,349 @@
+import { computed } from 'vue';
+import { useCreateLayer, useLogger } from '@libs/composables';
+import { filterStylePropertiesByKeys } from '@libs/helpers';
+import type {
+  CreateLayerActions,
+  Nullable,
+  FillExtrusionLayout,
+  FillExtrusionPaint,
+  FillExtrusionLayerStyle,
+} from '@libs/types';
+import type { MaybeRef } from 'vue';
+import type {
+  Map,
+  SourceSpecification,
+  FilterSpecification,
+  FillExtrusionLayerSpecification,
+  StyleSetterOptions,
+  ExpressionSpecification,
+} from 'maplibre-gl';
+
+type Layer = FillExtrusionLayerSpecification;
+type Layout = FillExtrusionLayout;
+type Paint = FillExtrusionPaint;
+
+/**
+ * Paint properties for fill-extrusion layers
+ * Comprehensive list of all supported fill-extrusion paint properties
+ */
+const FILL_EXTRUSION_PAINT_KEYS: (keyof Paint)[] = [
+  'fill-extrusion-opacity',
+  'fill-extrusion-color',
+  'fill-extrusion-translate',
+  'fill-extrusion-translate-anchor',
+  'fill-extrusion-pattern',
+  'fill-extrusion-height',
+  'fill-extrusion-base',
+  'fill-extrusion-vertical-gradient',
+];
+
+/**
+ * Layout properties for fill-extrusion layers
+ * Comprehensive list of all supported fill-extrusion layout properties
+ */
+const FILL_EXTRUSION_LAYOUT_KEYS: (keyof Layout)[] = ['visibility'];
+
+interface CreateFillExtrusionLayerProps {
+  map: MaybeRef<Nullable<Map>>;
+  source: MaybeRef<string | SourceSpecification | object | null>;
+  id?: string;
+  beforeId?: string;
+  filter?: FilterSpecification;
+  style?: FillExtrusionLayerStyle;
+  maxzoom?: number;
+  minzoom?: number;
+  metadata?: object;
+  sourceLayer?: string;
+  debug?: boolean;
+  register?: (actions: CreateLayerActions<Layer>, map: Map) => void;
+}
+
+interface FillExtrusionLayerActions extends CreateLayerActions<Layer> {
+  setStyle: (styleVal?: FillExtrusionLayerStyle) => void;
+  setOpacity: (opacity: number, options?: StyleSetterOptions) => void;
+  setColor: (
+    color: string | ExpressionSpecification,
+    options?: StyleSetterOptions,
+  ) => void;
+  setTranslate: (
+    translate: [number, number],
+    options?: StyleSetterOptions,
+  ) => void;
+  setTranslateAnchor: (
+    anchor: 'map' | 'viewport',
+    options?: StyleSetterOptions,
+  ) => void;
+  setPattern: (pattern: string, options?: StyleSetterOptions) => void;
+  setHeight: (
+    height: number | ExpressionSpecification,
+    options?: StyleSetterOptions,
+  ) => void;
+  setBase: (
+    base: number | ExpressionSpecification,
+    options?: StyleSetterOptions,
+  ) => void;
+  setVerticalGradient: (enabled: boolean, options?: StyleSetterOptions) => void;
+  setVisibility: (
+    visibility: 'visible' | 'none',
+    options?: StyleSetterOptions,
+  ) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Fill Extrusion Layers
+ * Provides reactive fill-extrusion layer with error handling, performance optimizations, and enhanced API
+ *
+ * @param props - Configuration options for the fill-extrusion layer
+ * @returns Enhanced actions and state for the fill-extrusion layer
+ */
+export function useCreateFillExtrusionLayer(
+  props: CreateFillExtrusionLayerProps,
+): FillExtrusionLayerActions {
+  const { logWarn, logError } = useLogger(props.debug ?? false);
+
+  // Memoized style processing for better performance
+  const styleConfig = computed(() => {
+    const style = props.style || {};
+    return {
+      paint: filterStylePropertiesByKeys(style, FILL_EXTRUSION_PAINT_KEYS),
+      layout: filterStylePropertiesByKeys(style, FILL_EXTRUSION_LAYOUT_KEYS),
+    };
+  });
+
+  const { setLayoutProperty, setPaintProperty, ...actions } =
+    useCreateLayer<Layer>({
+      map: props.map,
+      source: props.source,
+      type: 'fill-extrusion',
+      id: props.id,
+      beforeId: props.beforeId,
+      filter: props.filter,
+      layout: styleConfig.value.layout as any,
+      paint: styleConfig.value.paint as any,
+      maxzoom: props.maxzoom,
+      minzoom: props.minzoom,
+      metadata: props.metadata,
+      sourceLayer: props.sourceLayer,
+      debug: props.debug,
+      register: (actions, map) => {
+        props.register?.(
+          {
+            ...actions,
+            setStyle,
+            setOpacity,
+            setColor,
+            setTranslate,
+            setTranslateAnchor,
+            setPattern,
+            setHeight,
+            setBase,
+            setVerticalGradient,
+            setVisibility,
+          } as FillExtrusionLayerActions,
+          map,
+        );
+      },
+    });
+
+  /**
+   * Updates multiple style properties at once with error handling
+   * @param styleVal - Style object containing paint and layout properties
+   */
+  function setStyle(styleVal: FillExtrusionLayerStyle = {}): void {
+    try {
+      const styleKeys = Object.keys(styleVal);
+
+      styleKeys.forEach((key) => {
+        const typedKey = key as keyof FillExtrusionLayerStyle;
+        const value = styleVal[typedKey];
+
+        if (value === undefined) return;
+
+        if (FILL_EXTRUSION_PAINT_KEYS.includes(typedKey as keyof Paint)) {
+          setPaintProperty(key, value, { validate: false });
+        } else if (
+          FILL_EXTRUSION_LAYOUT_KEYS.includes(typedKey as keyof Layout)
+        ) {
+          setLayoutProperty(key, value, { validate: false });
+        }
+      });
+    } catch (error) {
+      logError('Error updating fill-extrusion layer style:', error);
+    }
+  }
+
+  /**
+   * Sets the fill-extrusion opacity with error handling and validation
+   * @param opacity - Fill-extrusion opacity value (0-1)
+   * @param options - Style setter options
+   */
+  function setOpacity(
+    opacity: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (opacity < 0 || opacity > 1) {
+        logWarn('Warning: Fill-extrusion opacity should be between 0 and 1', {
+          opacity,
+        });
+      }
+      setPaintProperty('fill-extrusion-opacity', opacity, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion opacity:', error);
+    }
+  }
+
+  /**
+   * Sets the fill-extrusion color with error handling
+   * @param color - Fill-extrusion color value
+   * @param options - Style setter options
+   */
+  function setColor(
+    color: string | ExpressionSpecification,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('fill-extrusion-color', color, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion color:', error);
+    }
+  }
+
+  /**
+   * Sets the fill-extrusion translation with error handling
+   * @param translate - Translation offset [x, y] in pixels
+   * @param options - Style setter options
+   */
+  function setTranslate(
+    translate: [number, number],
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('fill-extrusion-translate', translate, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion translate:', error);
+    }
+  }
+
+  /**
+   * Sets the fill-extrusion translation anchor with error handling
+   * @param anchor - Translation anchor ('map' | 'viewport')
+   * @param options - Style setter options
+   */
+  function setTranslateAnchor(
+    anchor: 'map' | 'viewport',
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('fill-extrusion-translate-anchor', anchor, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion translate anchor:', error);
+    }
+  }
+
+  /**
+   * Sets the fill-extrusion pattern with error handling
+   * @param pattern - Name of the image used as pattern
+   * @param options - Style setter options
+   */
+  function setPattern(
+    pattern: string,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('fill-extrusion-pattern', pattern, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion pattern:', error);
+    }
+  }
+
+  /**
+   * Sets the fill-extrusion height with error handling and validation
+   * @param height - Extrusion height in meters
+   * @param options - Style setter options
+   */
+  function setHeight(
+    height: number | ExpressionSpecification,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (typeof height === 'number' && height < 0) {
+        logWarn('Warning: Fill-extrusion height should not be negative', {
+          height,
+        });
+      }
+      setPaintProperty('fill-extrusion-height', height, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion height:', error);
+    }
+  }
+
+  /**
+   * Sets the fill-extrusion base height with error handling and validation
+   * @param base - Height of the extrusion base in meters
+   * @param options - Style setter options
+   */
+  function setBase(
+    base: number | ExpressionSpecification,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (typeof base === 'number' && base < 0) {
+        logWarn('Warning: Fill-extrusion base should not be negative', {
+          base,
+        });
+      }
+      setPaintProperty('fill-extrusion-base', base, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion base:', error);
+    }
+  }
+
+  /**
+   * Toggles the vertical gradient on the extrusion sides with error handling
+   * @param enabled - Whether to apply the vertical gradient
+   * @param options - Style setter options
+   */
+  function setVerticalGradient(
+    enabled: boolean,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('fill-extrusion-vertical-gradient', enabled, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion vertical gradient:', error);
+    }
+  }
+
+  /**
+   * Sets the layer visibility with error handling
+   * @param visibility - Visibility value ('visible' | 'none')
+   * @param options - Style setter options
+   */
+  function setVisibility(
+    visibility: 'visible' | 'none',
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setLayoutProperty('visibility', visibility, options);
+    } catch (error) {
+      logError('Error setting fill-extrusion layer visibility:', error);
+    }
+  }
+
+  return {
+    ...actions,
+    setStyle,
+    setLayoutProperty,
+    setPaintProperty,
+    setOpacity,
+    setColor,
+    setTranslate,
+    setTranslateAnchor,
+    setPattern,
+    setHeight,
+    setBase,
+    setVerticalGradient,
+    setVisibility,
+  };
+}
@@ -0,0 +1,285 @@
+import { computed } from 'vue';
+import { useCreateLayer, useLogger } from '@libs/composables';
+import { filterStylePropertiesByKeys } from '@libs/helpers';
+import type {
+  CreateLayerActions,
+  Nullable,
+  HeatmapLayout,
+  HeatmapPaint,
+  HeatmapLayerStyle,
+} from '@libs/types';
+import type { MaybeRef } from 'vue';
+import type {
+  Map,
+  SourceSpecification,
+  FilterSpecification,
+  HeatmapLayerSpecification,
+  StyleSetterOptions,
+  ExpressionSpecification,
+} from 'maplibre-gl';
+
+type Layer = HeatmapLayerSpecification;
+type Layout = HeatmapLayout;
+type Paint = HeatmapPaint;
+
+/**
+ * Paint properties for heatmap layers
+ * Comprehensive list of all supported heatmap paint properties
+ */
+const HEATMAP_PAINT_KEYS: (keyof Paint)[] = [
+  'heatmap-radius',
+  'heatmap-weight',
+  'heatmap-intensity',
+  'heatmap-color',
+  'heatmap-opacity',
+];
+
+/**
+ * Layout properties for heatmap layers
+ * Comprehensive list of all supported heatmap layout properties
+ */
+const HEATMAP_LAYOUT_KEYS: (keyof Layout)[] = ['visibility'];
+
+interface CreateHeatmapLayerProps {
+  map: MaybeRef<Nullable<Map>>;
+  source: MaybeRef<string | SourceSpecification | object | null>;
+  id?: string;
+  beforeId?: string;
+  filter?: FilterSpecification;
+  style?: HeatmapLayerStyle;
+  maxzoom?: number;
+  minzoom?: number;
+  metadata?: object;
+  sourceLayer?: string;
+  debug?: boolean;
+  register?: (actions: CreateLayerActions<Layer>, map: Map) => void;
+}
+
+interface HeatmapLayerActions extends CreateLayerActions<Layer> {
+  setStyle: (styleVal?: HeatmapLayerStyle) => void;
+  setRadius: (
+    radius: number | ExpressionSpecification,
+    options?: StyleSetterOptions,
+  ) => void;
+  setWeight: (
+    weight: number | ExpressionSpecification,
+    options?: StyleSetterOptions,
+  ) => void;
+  setIntensity: (
+    intensity: number | ExpressionSpecification,
+    options?: StyleSetterOptions,
+  ) => void;
+  setColor: (
+    color: ExpressionSpecification,
+    options?: StyleSetterOptions,
+  ) => void;
+  setOpacity: (opacity: number, options?: StyleSetterOptions) => void;
+  setVisibility: (
+    visibility: 'visible' | 'none',
+    options?: StyleSetterOptions,
+  ) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Heatmap Layers
+ * Provides reactive heatmap layer with error handling, performance optimizations, and enhanced API
+ *
+ * @param props - Configuration options for the heatmap layer
+ * @returns Enhanced actions and state for the heatmap layer
+ */
+export function useCreateHeatmapLayer(
+  props: CreateHeatmapLayerProps,
+): HeatmapLayerActions {
+  const { logWarn, logError } = useLogger(props.debug ?? false);
+
+  // Memoized style processing for better performance
+  const styleConfig = computed(() => {
+    const style = props.style || {};
+    return {
+      paint: filterStylePropertiesByKeys(style, HEATMAP_PAINT_KEYS),
+      layout: filterStylePropertiesByKeys(style, HEATMAP_LAYOUT_KEYS),
+    };
+  });
+
+  const { setLayoutProperty, setPaintProperty, ...actions } =
+    useCreateLayer<Layer>({
+      map: props.map,
+      source: props.source,
+      type: 'heatmap',
+      id: props.id,
+      beforeId: props.beforeId,
+      filter: props.filter,
+      layout: styleConfig.value.layout as any,
+      paint: styleConfig.value.paint as any,
+      maxzoom: props.maxzoom,
+      minzoom: props.minzoom,
+      metadata: props.metadata,
+      sourceLayer: props.sourceLayer,
+      debug: props.debug,
+      register: (actions, map) => {
+        props.register?.(
+          {
+            ...actions,
+            setStyle,
+            setRadius,
+            setWeight,
+            setIntensity,
+            setColor,
+            setOpacity,
+            setVisibility,
+          } as HeatmapLayerActions,
+          map,
+        );
+      },
+    });
+
+  /**
+   * Updates multiple style properties at once with error handling
+   * @param styleVal - Style object containing paint and layout properties
+   */
+  function setStyle(styleVal: HeatmapLayerStyle = {}): void {
+    try {
+      const styleKeys = Object.keys(styleVal);
+
+      styleKeys.forEach((key) => {
+        const typedKey = key as keyof HeatmapLayerStyle;
+        const value = styleVal[typedKey];
+
+        if (value === undefined) return;
+
+        if (HEATMAP_PAINT_KEYS.includes(typedKey as keyof Paint)) {
+          setPaintProperty(key, value, { validate: false });
+        } else if (HEATMAP_LAYOUT_KEYS.includes(typedKey as keyof Layout)) {
+          setLayoutProperty(key, value, { validate: false });
+        }
+      });
+    } catch (error) {
+      logError('Error updating heatmap layer style:', error);
+    }
+  }
+
+  /**
+   * Sets the heatmap radius with error handling and validation
+   * @param radius - Radius of influence of one point in pixels
+   * @param options - Style setter options
+   */
+  function setRadius(
+    radius: number | ExpressionSpecification,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (typeof radius === 'number' && radius < 1) {
+        logWarn('Warning: Heatmap radius should be at least 1', { radius });
+      }
+      setPaintProperty('heatmap-radius', radius, options);
+    } catch (error) {
+      logError('Error setting heatmap radius:', error);
+    }
+  }
+
+  /**
+   * Sets the heatmap weight with error handling and validation
+   * @param weight - Contribution of each point to the heatmap
+   * @param options - Style setter options
+   */
+  function setWeight(
+    weight: number | ExpressionSpecification,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (typeof weight === 'number' && weight < 0) {
+        logWarn('Warning: Heatmap weight should not be negative', { weight });
+      }
+      setPaintProperty('heatmap-weight', weight, options);
+    } catch (error) {
+      logError('Error setting heatmap weight:', error);
+    }
+  }
+
+  /**
+   * Sets the heatmap intensity with error handling and validation
+   * @param intensity - Global multiplier for the heatmap weight
+   * @param options - Style setter options
+   */
+  function setIntensity(
+    intensity: number | ExpressionSpecification,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (typeof intensity === 'number' && intensity < 0) {
+        logWarn('Warning: Heatmap intensity should not be negative', {
+          intensity,
+        });
+      }
+      setPaintProperty('heatmap-intensity', intensity, options);
+    } catch (error) {
+      logError('Error setting heatmap intensity:', error);
+    }
+  }
+
+  /**
+   * Sets the heatmap color ramp with error handling
+   * @param color - Color expression based on `heatmap-density`
+   * @param options - Style setter options
+   */
+  function setColor(
+    color: ExpressionSpecification,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('heatmap-color', color, options);
+    } catch (error) {
+      logError('Error setting heatmap color:', error);
+    }
+  }
+
+  /**
+   * Sets the heatmap opacity with error handling and validation
+   * @param opacity - Heatmap opacity value (0-1)
+   * @param options - Style setter options
+   */
+  function setOpacity(
+    opacity: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (opacity < 0 || opacity > 1) {
+        logWarn('Warning: Heatmap opacity should be between 0 and 1', {
+          opacity,
+        });
+      }
+      setPaintProperty('heatmap-opacity', opacity, options);
+    } catch (error) {
+      logError('Error setting heatmap opacity:', error);
+    }
+  }
+
+  /**
+   * Sets the layer visibility with error handling
+   * @param visibility - Visibility value ('visible' | 'none')
+   * @param options - Style setter options
+   */
+  function setVisibility(
+    visibility: 'visible' | 'none',
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setLayoutProperty('visibility', visibility, options);
+    } catch (error) {
+      logError('Error setting heatmap layer visibility:', error);
+    }
+  }
+
+  return {
+    ...actions,
+    setStyle,
+    setLayoutProperty,
+    setPaintProperty,
+    setRadius,
+    setWeight,
+    setIntensity,
+    setColor,
+    setOpacity,
+    setVisibility,
+  };
+}
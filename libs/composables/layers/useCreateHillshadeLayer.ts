@@ -0,0 +1,293 @@
+import { computed } from 'vue';
+import { useCreateLayer, useLogger } from '@libs/composables';
+import { filterStylePropertiesByKeys } from '@libs/helpers';
+import type {
+  CreateLayerActions,
+  Nullable,
+  HillshadeLayout,
+  HillshadePaint,
+  HillshadeLayerStyle,
+} from '@libs/types';
+import type { MaybeRef } from 'vue';
+import type {
+  Map,
+  SourceSpecification,
+  FilterSpecification,
+  HillshadeLayerSpecification,
+  StyleSetterOptions,
+} from 'maplibre-gl';
+
+type Layer = HillshadeLayerSpecification;
+type Layout = HillshadeLayout;
+type Paint = HillshadePaint;
+
+/**
+ * Paint properties for hillshade layers
+ * Comprehensive list of all supported hillshade paint properties
+ */
+const HILLSHADE_PAINT_KEYS: (keyof Paint)[] = [
+  'hillshade-illumination-direction',
+  'hillshade-illumination-altitude',
+  'hillshade-illumination-anchor',
+  'hillshade-exaggeration',
+  'hillshade-shadow-color',
+  'hillshade-highlight-color',
+  'hillshade-accent-color',
+  'hillshade-method',
+];
+
+/**
+ * Layout properties for hillshade layers
+ * Comprehensive list of all supported hillshade layout properties
+ */
+const HILLSHADE_LAYOUT_KEYS: (keyof Layout)[] = ['visibility'];
+
+interface CreateHillshadeLayerProps {
+  map: MaybeRef<Nullable<Map>>;
+  source: MaybeRef<string | SourceSpecification | object | null>;
+  id?: string;
+  beforeId?: string;
+  filter?: FilterSpecification;
+  style?: HillshadeLayerStyle;
+  maxzoom?: number;
+  minzoom?: number;
+  metadata?: object;
+  debug?: boolean;
+  register?: (actions: CreateLayerActions<Layer>, map: Map) => void;
+}
+
+interface HillshadeLayerActions extends CreateLayerActions<Layer> {
+  setStyle: (styleVal?: HillshadeLayerStyle) => void;
+  setIlluminationDirection: (
+    direction: number,
+    options?: StyleSetterOptions,
+  ) => void;
+  setIlluminationAnchor: (
+    anchor: 'map' | 'viewport',
+    options?: StyleSetterOptions,
+  ) => void;
+  setExaggeration: (exaggeration: number, options?: StyleSetterOptions) => void;
+  setShadowColor: (color: string, options?: StyleSetterOptions) => void;
+  setHighlightColor: (color: string, options?: StyleSetterOptions) => void;
+  setAccentColor: (color: string, options?: StyleSetterOptions) => void;
+  setVisibility: (
+    visibility: 'visible' | 'none',
+    options?: StyleSetterOptions,
+  ) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Hillshade Layers
+ * Provides reactive hillshade layer with error handling, performance optimizations, and enhanced API
+ *
+ * @param props - Configuration options for the hillshade layer
+ * @returns Enhanced actions and state for the hillshade layer
+ */
+export function useCreateHillshadeLayer(
+  props: CreateHillshadeLayerProps,
+): HillshadeLayerActions {
+  const { logWarn, logError } = useLogger(props.debug ?? false);
+
+  // Memoized style processing for better performance
+  const styleConfig = computed(() => {
+    const style = props.style || {};
+    return {
+      paint: filterStylePropertiesByKeys(style, HILLSHADE_PAINT_KEYS),
+      layout: filterStylePropertiesByKeys(style, HILLSHADE_LAYOUT_KEYS),
+    };
+  });
+
+  const { setLayoutProperty, setPaintProperty, ...actions } =
+    useCreateLayer<Layer>({
+      map: props.map,
+      source: props.source,
+      type: 'hillshade',
+      id: props.id,
+      beforeId: props.beforeId,
+      filter: props.filter,
+      layout: styleConfig.value.layout as any,
+      paint: styleConfig.value.paint as any,
+      maxzoom: props.maxzoom,
+      minzoom: props.minzoom,
+      metadata: props.metadata,
+      debug: props.debug,
+      register: (actions, map) => {
+        props.register?.(
+          {
+            ...actions,
+            setStyle,
+            setIlluminationDirection,
+            setIlluminationAnchor,
+            setExaggeration,
+            setShadowColor,
+            setHighlightColor,
+            setAccentColor,
+            setVisibility,
+          } as HillshadeLayerActions,
+          map,
+        );
+      },
+    });
+
+  /**
+   * Updates multiple style properties at once with error handling
+   * @param styleVal - Style object containing paint and layout properties
+   */
+  function setStyle(styleVal: HillshadeLayerStyle = {}): void {
+    try {
+      const styleKeys = Object.keys(styleVal);
+
+      styleKeys.forEach((key) => {
+        const typedKey = key as keyof HillshadeLayerStyle;
+        const value = styleVal[typedKey];
+
+        if (value === undefined) return;
+
+        if (HILLSHADE_PAINT_KEYS.includes(typedKey as keyof Paint)) {
+          setPaintProperty(key, value, { validate: false });
+        } else if (HILLSHADE_LAYOUT_KEYS.includes(typedKey as keyof Layout)) {
+          setLayoutProperty(key, value, { validate: false });
+        }
+      });
+    } catch (error) {
+      logError('Error updating hillshade layer style:', error);
+    }
+  }
+
+  /**
+   * Sets the hillshade illumination direction with error handling and validation
+   * @param direction - Light source direction in degrees (0-359)
+   * @param options - Style setter options
+   */
+  function setIlluminationDirection(
+    direction: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (direction < 0 || direction > 359) {
+        logWarn(
+          'Warning: Hillshade illumination direction should be between 0 and 359',
+          { direction },
+        );
+      }
+      setPaintProperty('hillshade-illumination-direction', direction, options);
+    } catch (error) {
+      logError('Error setting hillshade illumination direction:', error);
+    }
+  }
+
+  /**
+   * Sets the hillshade illumination anchor with error handling
+   * @param anchor - Illumination anchor ('map' | 'viewport')
+   * @param options - Style setter options
+   */
+  function setIlluminationAnchor(
+    anchor: 'map' | 'viewport',
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('hillshade-illumination-anchor', anchor, options);
+    } catch (error) {
+      logError('Error setting hillshade illumination anchor:', error);
+    }
+  }
+
+  /**
+   * Sets the hillshade exaggeration with error handling and validation
+   * @param exaggeration - Intensity of the hillshade (0-1)
+   * @param options - Style setter options
+   */
+  function setExaggeration(
+    exaggeration: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (exaggeration < 0 || exaggeration > 1) {
+        logWarn('Warning: Hillshade exaggeration should be between 0 and 1', {
+          exaggeration,
+        });
+      }
+      setPaintProperty('hillshade-exaggeration', exaggeration, options);
+    } catch (error) {
+      logError('Error setting hillshade exaggeration:', error);
+    }
+  }
+
+  /**
+   * Sets the hillshade shadow color with error handling
+   * @param color - Shadow color value
+   * @param options - Style setter options
+   */
+  function setShadowColor(
+    color: string,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('hillshade-shadow-color', color, options);
+    } catch (error) {
+      logError('Error setting hillshade shadow color:', error);
+    }
+  }
+
+  /**
+   * Sets the hillshade highlight color with error handling
+   * @param color - Highlight color value
+   * @param options - Style setter options
+   */
+  function setHighlightColor(
+    color: string,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('hillshade-highlight-color', color, options);
+    } catch (error) {
+      logError('Error setting hillshade highlight color:', error);
+    }
+  }
+
+  /**
+   * Sets the hillshade accent color with error handling
+   * @param color - Accent color value
+   * @param options - Style setter options
+   */
+  function setAccentColor(
+    color: string,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('hillshade-accent-color', color, options);
+    } catch (error) {
+      logError('Error setting hillshade accent color:', error);
+    }
+  }
+
+  /**
+   * Sets the layer visibility with error handling
+   * @param visibility - Visibility value ('visible' | 'none')
+   * @param options - Style setter options
+   */
+  function setVisibility(
+    visibility: 'visible' | 'none',
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setLayoutProperty('visibility', visibility, options);
+    } catch (error) {
+      logError('Error setting hillshade layer visibility:', error);
+    }
+  }
+
+  return {
+    ...actions,
+    setStyle,
+    setLayoutProperty,
+    setPaintProperty,
+    setIlluminationDirection,
+    setIlluminationAnchor,
+    setExaggeration,
+    setShadowColor,
+    setHighlightColor,
+    setAccentColor,
+    setVisibility,
+  };
+}
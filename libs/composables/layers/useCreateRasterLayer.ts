@@ -0,0 +1,326 @@
+import { computed } from 'vue';
+import { useCreateLayer, useLogger } from '@libs/composables';
+import { filterStylePropertiesByKeys } from '@libs/helpers';
+import type {
+  CreateLayerActions,
+  Nullable,
+  RasterLayout,
+  RasterPaint,
+  RasterLayerStyle,
+} from '@libs/types';
+import type { MaybeRef } from 'vue';
+import type {
+  Map,
+  SourceSpecification,
+  FilterSpecification,
+  RasterLayerSpecification,
+  StyleSetterOptions,
+} from 'maplibre-gl';
+
+type Layer = RasterLayerSpecification;
+type Layout = RasterLayout;
+type Paint = RasterPaint;
+
+/**
+ * Paint properties for raster layers
+ * Comprehensive list of all supported raster paint properties
+ */
+const RASTER_PAINT_KEYS: (keyof Paint)[] = [
+  'raster-opacity',
+  'raster-hue-rotate',
+  'raster-brightness-min',
+  'raster-brightness-max',
+  'raster-saturation',
+  'raster-contrast',
+  'raster-resampling',
+  'raster-fade-duration',
+];
+
+/**
+ * Layout properties for raster layers
+ * Comprehensive list of all supported raster layout properties
+ */
+const RASTER_LAYOUT_KEYS: (keyof Layout)[] = ['visibility'];
+
+interface CreateRasterLayerProps {
+  map: MaybeRef<Nullable<Map>>;
+  source: MaybeRef<string | SourceSpecification | object | null>;
+  id?: string;
+  beforeId?: string;
+  filter?: FilterSpecification;
+  style?: RasterLayerStyle;
+  maxzoom?: number;
+  minzoom?: number;
+  metadata?: object;
+  debug?: boolean;
+  register?: (actions: CreateLayerActions<Layer>, map: Map) => void;
+}
+
+interface RasterLayerActions extends CreateLayerActions<Layer> {
+  setStyle: (styleVal?: RasterLayerStyle) => void;
+  setOpacity: (opacity: number, options?: StyleSetterOptions) => void;
+  setHueRotate: (degrees: number, options?: StyleSetterOptions) => void;
+  setBrightness: (
+    min: number,
+    max: number,
+    options?: StyleSetterOptions,
+  ) => void;
+  setSaturation: (saturation: number, options?: StyleSetterOptions) => void;
+  setContrast: (contrast: number, options?: StyleSetterOptions) => void;
+  setResampling: (
+    resampling: 'linear' | 'nearest',
+    options?: StyleSetterOptions,
+  ) => void;
+  setFadeDuration: (duration: number, options?: StyleSetterOptions) => void;
+  setVisibility: (
+    visibility: 'visible' | 'none',
+    options?: StyleSetterOptions,
+  ) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Raster Layers
+ * Provides reactive raster layer with error handling, performance optimizations, and enhanced API
+ *
+ * @param props - Configuration options for the raster layer
+ * @returns Enhanced actions and state for the raster layer
+ */
+export function useCreateRasterLayer(
+  props: CreateRasterLayerProps,
+): RasterLayerActions {
+  const { logWarn, logError } = useLogger(props.debug ?? false);
+
+  // Memoized style processing for better performance
+  const styleConfig = computed(() => {
+    const style = props.style || {};
+    return {
+      paint: filterStylePropertiesByKeys(style, RASTER_PAINT_KEYS),
+      layout: filterStylePropertiesByKeys(style, RASTER_LAYOUT_KEYS),
+    };
+  });
+
+  const { setLayoutProperty, setPaintProperty, ...actions } =
+    useCreateLayer<Layer>({
+      map: props.map,
+      source: props.source,
+      type: 'raster',
+      id: props.id,
+      beforeId: props.beforeId,
+      filter: props.filter,
+      layout: styleConfig.value.layout as any,
+      paint: styleConfig.value.paint as any,
+      maxzoom: props.maxzoom,
+      minzoom: props.minzoom,
+      metadata: props.metadata,
+      debug: props.debug,
+      register: (actions, map) => {
+        props.register?.(
+          {
+            ...actions,
+            setStyle,
+            setOpacity,
+            setHueRotate,
+            setBrightness,
+            setSaturation,
+            setContrast,
+            setResampling,
+            setFadeDuration,
+            setVisibility,
+          } as RasterLayerActions,
+          map,
+        );
+      },
+    });
+
+  /**
+   * Updates multiple style properties at once with error handling
+   * @param styleVal - Style object containing paint and layout properties
+   */
+  function setStyle(styleVal: RasterLayerStyle = {}): void {
+    try {
+      const styleKeys = Object.keys(styleVal);
+
+      styleKeys.forEach((key) => {
+        const typedKey = key as keyof RasterLayerStyle;
+        const value = styleVal[typedKey];
+
+        if (value === undefined) return;
+
+        if (RASTER_PAINT_KEYS.includes(typedKey as keyof Paint)) {
+          setPaintProperty(key, value, { validate: false });
+        } else if (RASTER_LAYOUT_KEYS.includes(typedKey as keyof Layout)) {
+          setLayoutProperty(key, value, { validate: false });
+        }
+      });
+    } catch (error) {
+      logError('Error updating raster layer style:', error);
+    }
+  }
+
+  /**
+   * Sets the raster opacity with error handling and validation
+   * @param opacity - Raster opacity value (0-1)
+   * @param options - Style setter options
+   */
+  function setOpacity(
+    opacity: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (opacity < 0 || opacity > 1) {
+        logWarn('Warning: Raster opacity should be between 0 and 1', {
+          opacity,
+        });
+      }
+      setPaintProperty('raster-opacity', opacity, options);
+    } catch (error) {
+      logError('Error setting raster opacity:', error);
+    }
+  }
+
+  /**
+   * Sets the raster hue rotation with error handling
+   * @param degrees - Hue rotation in degrees
+   * @param options - Style setter options
+   */
+  function setHueRotate(
+    degrees: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('raster-hue-rotate', degrees, options);
+    } catch (error) {
+      logError('Error setting raster hue rotate:', error);
+    }
+  }
+
+  /**
+   * Sets the raster brightness range with error handling and validation
+   * @param min - Minimum brightness (0-1)
+   * @param max - Maximum brightness (0-1)
+   * @param options - Style setter options
+   */
+  function setBrightness(
+    min: number,
+    max: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (min < 0 || max > 1 || min > max) {
+        logWarn('Warning: Raster brightness should be within 0 and 1', {
+          min,
+          max,
+        });
+      }
+      setPaintProperty('raster-brightness-min', min, options);
+      setPaintProperty('raster-brightness-max', max, options);
+    } catch (error) {
+      logError('Error setting raster brightness:', error);
+    }
+  }
+
+  /**
+   * Sets the raster saturation with error handling and validation
+   * @param saturation - Saturation value (-1 to 1)
+   * @param options - Style setter options
+   */
+  function setSaturation(
+    saturation: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (saturation < -1 || saturation > 1) {
+        logWarn('Warning: Raster saturation should be between -1 and 1', {
+          saturation,
+        });
+      }
+      setPaintProperty('raster-saturation', saturation, options);
+    } catch (error) {
+      logError('Error setting raster saturation:', error);
+    }
+  }
+
+  /**
+   * Sets the raster contrast with error handling and validation
+   * @param contrast - Contrast value (-1 to 1)
+   * @param options - Style setter options
+   */
+  function setContrast(
+    contrast: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      if (contrast < -1 || contrast > 1) {
+        logWarn('Warning: Raster contrast should be between -1 and 1', {
+          contrast,
+        });
+      }
+      setPaintProperty('raster-contrast', contrast, options);
+    } catch (error) {
+      logError('Error setting raster contrast:', error);
+    }
+  }
+
+  /**
+   * Sets the raster resampling method with error handling
+   * @param resampling - Resampling method ('linear' | 'nearest')
+   * @param options - Style setter options
+   */
+  function setResampling(
+    resampling: 'linear' | 'nearest',
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('raster-resampling', resampling, options);
+    } catch (error) {
+      logError('Error setting raster resampling:', error);
+    }
+  }
+
+  /**
+   * Sets the raster fade duration with error handling
+   * @param duration - Fade duration in milliseconds
+   * @param options - Style setter options
+   */
+  function setFadeDuration(
+    duration: number,
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setPaintProperty('raster-fade-duration', duration, options);
+    } catch (error) {
+      logError('Error setting raster fade duration:', error);
+    }
+  }
+
+  /**
+   * Sets the layer visibility with error handling
+   * @param visibility - Visibility value ('visible' | 'none')
+   * @param options - Style setter options
+   */
+  function setVisibility(
+    visibility: 'visible' | 'none',
+    options: StyleSetterOptions = { validate: true },
+  ): void {
+    try {
+      setLayoutProperty('visibility', visibility, options);
+    } catch (error) {
+      logError('Error setting raster layer visibility:', error);
+    }
+  }
+
+  return {
+    ...actions,
+    setStyle,
+    setLayoutProperty,
+    setPaintProperty,
+    setOpacity,
+    setHueRotate,
+    setBrightness,
+    setSaturation,
+    setContrast,
+    setResampling,
+    setFadeDuration,
+    setVisibility,
+  };
+}
@@ -2,6 +2,11 @@ export * from './useCreateMaplibre';
 export * from './useMaplibre';
 export * from './useLayer';
 export * from './useCreateImage';
+export * from './useCreateSprite';
+export * from './useAnimatedImage';
+export * from './useStyle';
 export * from './useGeoJsonSource';
 export * from './useCreatePopup';
 export * from './useCreateMarker';
+export * from './useAnimatedMarker';
+export * from './useMarkerCluster';
@@ -0,0 +1,315 @@
+import { computed, ref, unref, watch, onUnmounted } from 'vue';
+import { useCreateImage, useLogger } from '@libs/composables';
+import { getDevicePixelRatio } from '@libs/helpers';
+import type { MaybeRef, Ref } from 'vue';
+import type { Nullable } from '@libs/types';
+import type { Map, StyleImageInterface, StyleImageMetadata } from 'maplibre-gl';
+
+/**
+ * Frame of an animated image, such as a decoded GIF or APNG frame
+ */
+export interface AnimatedImageFrame {
+  /** ImageData is copied as is and must match the image size in pixels */
+  image: CanvasImageSource | ImageData;
+  /** Display time in milliseconds, defaults to `frameDuration` */
+  duration?: number;
+}
+
+/**
+ * State passed to the draw callback
+ */
+export interface AnimatedImageDrawState {
+  /** Number of frames drawn before this one */
+  frame: number;
+  /** Playing time in milliseconds, paused time excluded */
+  time: number;
+}
+
+interface AnimatedImageProps {
+  map: MaybeRef<Nullable<Map>>;
+  id: string;
+  /** Image width in CSS pixels */
+  width: number;
+  /** Image height in CSS pixels */
+  height: number;
+  /** Draws a frame, the context is scaled so drawing uses CSS pixels */
+  draw?: (
+    context: CanvasRenderingContext2D,
+    state: AnimatedImageDrawState,
+  ) => void;
+  /** Frames played in order, used when no draw callback is given */
+  frames?: MaybeRef<AnimatedImageFrame[]>;
+  /** Default frame display time in milliseconds (default: 100) */
+  frameDuration?: number;
+  /** Maximum frames per second of the draw callback (default: 30) */
+  fps?: number;
+  /** Play the frames again after the last one (default: true) */
+  loop?: boolean;
+  /** Start playing once added (default: true) */
+  autoplay?: boolean;
+  /** Pixel density of the image (default: devicePixelRatio) */
+  pixelRatio?: number;
+  options?: Omit<Partial<StyleImageMetadata>, 'pixelRatio'>;
+  debug?: boolean;
+}
+
+interface AnimatedImageActions {
+  isPlaying: Ref<boolean>;
+  play: () => void;
+  pause: () => void;
+  restart: () => void;
+  remove: () => void;
+}
+
+/**
+ * Composable for creating animated map images
+ * Implements a StyleImageInterface whose render() draws the next frame once it
+ * is due and schedules the following repaint, instead of repainting the map
+ * every animation frame. MapLibre only renders images in use, and playback
+ * pauses while the page is hidden
+ *
+ * @param props - Configuration options for the animated image
+ * @returns Playback state and actions for the image
+ */
+export function useAnimatedImage({
+  map,
+  id,
+  width,
+  height,
+  draw,
+  frames = [],
+  frameDuration = 100,
+  fps = 30,
+  loop = true,
+  autoplay = true,
+  pixelRatio = getDevicePixelRatio(),
+  options = {},
+  debug = false,
+}: AnimatedImageProps): AnimatedImageActions {
+  const { logError, logWarn } = useLogger(debug);
+  const isPlaying = ref(autoplay);
+  const pixelWidth = Math.max(1, Math.round(width * pixelRatio));
+  const pixelHeight = Math.max(1, Math.round(height * pixelRatio));
+
+  // Computed properties for better reactivity and performance
+  const framesList = computed(() => unref(frames));
+
+  let context: Nullable<CanvasRenderingContext2D> = null;
+  let renderingMap: Nullable<Map> = null;
+  let repaintTimer: Nullable<ReturnType<typeof setTimeout>> = null;
+  let frameIndex = 0;
+  // Set when a frame is drawn outside render(), so the next render uploads it
+  let pendingUpload = false;
+  let nextFrameAt = 0;
+  let startTime = performance.now();
+  let pausedAt: Nullable<number> = autoplay ? null : startTime;
+
+  try {
+    const canvas = document.createElement('canvas');
+    canvas.width = pixelWidth;
+    canvas.height = pixelHeight;
+    context = canvas.getContext('2d', { willReadFrequently: true });
+  } catch (error) {
+    logError('Error creating animated image canvas:', error, { imageId: id });
+  }
+
+  /**
+   * Draws the current frame to the canvas and moves to the next one
+   * @param now - Current timestamp
+   * @returns Whether a frame was drawn
+   */
+  function drawFrame(now: number): boolean {
+    if (!context) return false;
+
+    try {
+      context.clearRect(0, 0, pixelWidth, pixelHeight);
+
+      if (draw) {
+        context.save();
+        context.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+        draw(context, { frame: frameIndex, time: now - startTime });
+        context.restore();
+        nextFrameAt = now + 1000 / fps;
+      } else {
+        const list = framesList.value;
+
+        if (!list.length) return false;
+
+        const frame = list[frameIndex % list.length];
+
+        if (frame.image instanceof ImageData) {
+          context.putImageData(frame.image, 0, 0);
+        } else {
+          context.drawImage(frame.image, 0, 0, pixelWidth, pixelHeight);
+        }
+
+        nextFrameAt = now + (frame.duration ?? frameDuration);
+
+        if (!loop && frameIndex >= list.length - 1) pause();
+      }
+
+      frameIndex++;
+      styleImage.data.set(
+        context.getImageData(0, 0, pixelWidth, pixelHeight).data,
+      );
+      return true;
+    } catch (error) {
+      logError('Error drawing animated image frame:', error, { imageId: id });
+      return false;
+    }
+  }
+
+  /**
+   * Repaints the map once the next frame is due
+   * @param delay - Time until the next frame in milliseconds
+   */
+  function scheduleRepaint(delay: number): void {
+    if (repaintTimer !== null) return;
+
+    repaintTimer = setTimeout(() => {
+      repaintTimer = null;
+
+      if (isPlaying.value && !document.hidden) renderingMap?.triggerRepaint();
+    }, delay);
+  }
+
+  function clearRepaint(): void {
+    if (repaintTimer === null) return;
+
+    clearTimeout(repaintTimer);
+    repaintTimer = null;
+  }
+
+  const styleImage: StyleImageInterface = {
+    width: pixelWidth,
+    height: pixelHeight,
+    data: new Uint8Array(pixelWidth * pixelHeight * 4),
+    onAdd(mapRef: Map) {
+      renderingMap = mapRef;
+    },
+    onRemove() {
+      clearRepaint();
+      renderingMap = null;
+    },
+    // Called by MapLibre on each frame rendering the image
+    render() {
+      let updated = pendingUpload;
+      pendingUpload = false;
+
+      if (!isPlaying.value || document.hidden) return updated;
+
+      const now = performance.now();
+      if (now >= nextFrameAt) updated = drawFrame(now) || updated;
+
+      if (isPlaying.value) scheduleRepaint(Math.max(0, nextFrameAt - now));
+
+      return updated;
+    },
+  };
+
+  /**
+   * Draws the current frame right away, also while paused
+   */
+  function redraw(): void {
+    if (!drawFrame(performance.now())) return;
+
+    pendingUpload = true;
+    renderingMap?.triggerRepaint();
+  }
+
+  /**
+   * Starts or resumes the animation
+   */
+  function play(): void {
+    if (isPlaying.value) return;
+
+    const now = performance.now();
+
+    if (pausedAt !== null) startTime += now - pausedAt;
+    pausedAt = null;
+
+    // A finished animation without loop starts over
+    if (!draw && !loop && frameIndex >= framesList.value.length) {
+      frameIndex = 0;
+    }
+
+    isPlaying.value = true;
+    nextFrameAt = 0;
+    renderingMap?.triggerRepaint();
+  }
+
+  /**
+   * Pauses the animation on the current frame
+   */
+  function pause(): void {
+    if (!isPlaying.value) return;
+
+    isPlaying.value = false;
+    pausedAt = performance.now();
+    clearRepaint();
+  }
+
+  /**
+   * Starts the animation over from its first frame
+   */
+  function restart(): void {
+    const now = performance.now();
+
+    frameIndex = 0;
+    startTime = now;
+    pausedAt = isPlaying.value ? null : now;
+    redraw();
+  }
+
+  /**
+   * Resumes repainting when the page is shown again
+   */
+  function onVisibilityChange(): void {
+    if (document.hidden) {
+      clearRepaint();
+    } else if (isPlaying.value) {
+      renderingMap?.triggerRepaint();
+    }
+  }
+
+  if (!draw && !framesList.value.length) {
+    logWarn('Animated image has no draw callback and no frames', {
+      imageId: id,
+    });
+  }
+
+  // The first frame is drawn before the image is added
+  drawFrame(performance.now());
+
+  const { remove } = useCreateImage({
+    map,
+    id,
+    image: styleImage,
+    options: { ...options, pixelRatio },
+    debug,
+  });
+
+  document.addEventListener('visibilitychange', onVisibilityChange);
+
+  // New frames start from their first frame
+  const stopFramesWatcher = watch(framesList, () => {
+    if (draw) return;
+
+    frameIndex = 0;
+    redraw();
+  });
+
+  onUnmounted(() => {
+    stopFramesWatcher();
+    clearRepaint();
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  });
+
+  return {
+    isPlaying,
+    play,
+    pause,
+    restart,
+    remove,
+  };
+}
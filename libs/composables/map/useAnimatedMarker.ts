@@ -0,0 +1,421 @@
+import { computed, ref, shallowRef, unref, watch, onUnmounted } from 'vue';
+import { LngLat } from 'maplibre-gl';
+import { useCreateMarker, useLogger } from '@libs/composables';
+import {
+  getBearing,
+  getDistance,
+  getIntermediatePosition,
+  lngLatLikeHasValue,
+} from '@libs/helpers';
+import type { MaybeRef, Ref } from 'vue';
+import type { Nullable } from '@libs/types';
+import type { LineString, Position } from 'geojson';
+import type { LngLatLike, Map, MarkerOptions, Popup } from 'maplibre-gl';
+
+/**
+ * Path followed between two positions
+ * - `linear`: straight line in longitude and latitude
+ * - `great-circle`: shortest path on the globe, for long distances such as flights
+ */
+export type AnimatedMarkerInterpolation = 'linear' | 'great-circle';
+
+interface AnimatedMarkerProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Live position, the marker moves to each new value over `duration` */
+  lnglat?: MaybeRef<LngLatLike | undefined>;
+  /** Recorded track played back instead of the live position */
+  track?: MaybeRef<Nullable<LineString | Position[]>>;
+  /** Time of each track position in milliseconds, such as `Date.getTime()` values */
+  timestamps?: MaybeRef<Nullable<number[]>>;
+  /** Playback duration of a track without timestamps in milliseconds (default: 10000) */
+  trackDuration?: number;
+  /** Playback speed of the track, 10 plays it ten times faster (default: 1) */
+  speed?: MaybeRef<number>;
+  /** Duration of the move to a new live position in milliseconds (default: 1000) */
+  duration?: number;
+  interpolation?: AnimatedMarkerInterpolation;
+  /** Rotate the marker to its heading with `setRotation` (default: false) */
+  rotate?: boolean;
+  /** Rotation added to the heading, for icons not pointing north (default: 0) */
+  rotationOffset?: number;
+  /** Start over at the end of the track (default: false) */
+  loop?: boolean;
+  /** Play a new track right away (default: true) */
+  autoplay?: boolean;
+  /** Called when the track playback reaches its end */
+  onComplete?: () => void;
+  popup?: MaybeRef<Nullable<Popup>>;
+  el?: Ref<HTMLElement | undefined>;
+  options?: MarkerOptions;
+  debug?: boolean;
+}
+
+interface AnimatedMarkerActions
+  extends Omit<ReturnType<typeof useCreateMarker>, 'setLngLat'> {
+  position: Ref<Nullable<Position>>;
+  heading: Ref<Nullable<number>>;
+  /** Playback progress of the track, from 0 to 1 */
+  progress: Ref<number>;
+  /** Playback time of the track in milliseconds, speed excluded */
+  currentTime: Ref<number>;
+  isPlaying: Ref<boolean>;
+  play: () => void;
+  pause: () => void;
+  seek: (progress: number) => void;
+}
+
+/**
+ * Track positions with their playback time from the start of the track
+ */
+interface TrackTimeline {
+  positions: Position[];
+  times: number[];
+}
+
+interface LiveAnimation {
+  from: Position;
+  to: Position;
+  start: number;
+}
+
+// A hidden page stops animation frames, the track resumes where it was
+const MAX_FRAME_DELTA = 100;
+
+/**
+ * Composable for a marker moving smoothly instead of jumping
+ * New live positions are reached over `duration` from where the marker is,
+ * so frequent updates give a continuous motion. A recorded track is played
+ * back with its timestamps, or at a constant speed over `trackDuration`,
+ * with play, pause and seek actions and a reactive progress for replay UIs
+ *
+ * @param props - Configuration options for the marker and its animation
+ * @returns Marker actions with the animation state and playback actions
+ */
+export function useAnimatedMarker({
+  map,
+  lnglat,
+  track,
+  timestamps,
+  trackDuration = 10000,
+  speed = 1,
+  duration = 1000,
+  interpolation = 'linear',
+  rotate = false,
+  rotationOffset = 0,
+  loop = false,
+  autoplay = true,
+  onComplete,
+  popup,
+  el,
+  options,
+  debug = false,
+}: AnimatedMarkerProps): AnimatedMarkerActions {
+  const { logError, logWarn } = useLogger(debug);
+  const position = shallowRef<Nullable<Position>>(null);
+  const heading = ref<Nullable<number>>(null);
+  const progress = ref(0);
+  const currentTime = ref(0);
+  const isPlaying = ref(false);
+  let liveAnimation: Nullable<LiveAnimation> = null;
+  let frameId: Nullable<number> = null;
+  let lastFrame = 0;
+
+  // Computed properties for better reactivity and performance
+  const lnglatValue = computed(() => unref(lnglat));
+  const trackTimeline = computed((): Nullable<TrackTimeline> => {
+    const value = unref(track);
+    const positions = Array.isArray(value) ? value : (value?.coordinates ?? []);
+
+    if (positions.length < 2) return null;
+
+    const times = unref(timestamps);
+
+    if (times && times.length === positions.length) {
+      return { positions, times: times.map((time) => time - times[0]) };
+    }
+
+    if (times) {
+      logWarn('Track timestamps ignored, one per position is expected', {
+        positions: positions.length,
+        timestamps: times.length,
+      });
+    }
+
+    // Without timestamps the track is played at a constant speed
+    const distances = [0];
+    for (let i = 1; i < positions.length; i++) {
+      distances.push(
+        distances[i - 1] + getDistance(positions[i - 1], positions[i]),
+      );
+    }
+    const length = distances[distances.length - 1];
+
+    return {
+      positions,
+      times: distances.map((distance, i) =>
+        length
+          ? (distance / length) * trackDuration
+          : (i / (positions.length - 1)) * trackDuration,
+      ),
+    };
+  });
+  const trackTotal = computed(() => {
+    const times = trackTimeline.value?.times;
+    return times ? times[times.length - 1] : 0;
+  });
+
+  // The marker is created once the first position is known
+  const markerActions = useCreateMarker({
+    map: computed(() => (position.value ? unref(map) : null)),
+    lnglat: computed((): LngLatLike | undefined =>
+      position.value ? [position.value[0], position.value[1]] : undefined,
+    ),
+    popup,
+    el,
+    options,
+    debug,
+  });
+
+  /**
+   * Direction of the move at a position between two others
+   */
+  function getHeading(
+    from: Position,
+    to: Position,
+    current: Position,
+    fraction: number,
+  ): number {
+    if (interpolation === 'linear') return getBearing(from, to);
+
+    // The direction changes along a great circle
+    return fraction < 1
+      ? getBearing(current, to)
+      : ((getBearing(to, from) + 360) % 360) - 180;
+  }
+
+  /**
+   * Moves the marker between two positions
+   * @param from - Start of the move
+   * @param to - End of the move
+   * @param fraction - Part of the move done, from 0 to 1
+   */
+  function moveBetween(from: Position, to: Position, fraction: number): void {
+    const current =
+      interpolation === 'great-circle'
+        ? getIntermediatePosition(from, to, fraction)
+        : [
+            from[0] + (to[0] - from[0]) * fraction,
+            from[1] + (to[1] - from[1]) * fraction,
+          ];
+
+    position.value = current;
+
+    if (from[0] === to[0] && from[1] === to[1]) return;
+
+    heading.value = getHeading(from, to, current, fraction);
+
+    if (rotate) markerActions.setRotation(heading.value + rotationOffset);
+  }
+
+  /**
+   * Moves the marker to a time of the track
+   * @param time - Playback time in milliseconds
+   */
+  function setTrackTime(time: number): void {
+    const timeline = trackTimeline.value;
+
+    if (!timeline) return;
+
+    const { positions, times } = timeline;
+    const total = trackTotal.value;
+    const clampedTime = Math.max(0, Math.min(total, time));
+
+    // Last segment starting at or before the time
+    let low = 0;
+    let high = positions.length - 2;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (times[middle] <= clampedTime) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+
+    const span = times[low + 1] - times[low];
+
+    currentTime.value = clampedTime;
+    progress.value = total ? clampedTime / total : 1;
+    moveBetween(
+      positions[low],
+      positions[low + 1],
+      span > 0 ? Math.min(1, (clampedTime - times[low]) / span) : 1,
+    );
+  }
+
+  /**
+   * Advances the track playback
+   * @param delta - Time since the last frame in milliseconds
+   */
+  function advanceTrack(delta: number): void {
+    const total = trackTotal.value;
+    let time = currentTime.value + delta * Math.max(0, unref(speed));
+
+    if (time < total) {
+      setTrackTime(time);
+      return;
+    }
+
+    if (loop && total) {
+      time %= total;
+      setTrackTime(time);
+      return;
+    }
+
+    setTrackTime(total);
+    isPlaying.value = false;
+
+    try {
+      onComplete?.();
+    } catch (error) {
+      logError('Error in animated marker complete handler:', error);
+    }
+  }
+
+  /**
+   * Advances the move to the live position
+   * @param now - Time of the frame
+   */
+  function advanceLive(now: number): void {
+    if (!liveAnimation) return;
+
+    const { from, to, start } = liveAnimation;
+    const fraction = Math.min(1, (now - start) / duration);
+
+    moveBetween(from, to, fraction);
+
+    if (fraction >= 1) liveAnimation = null;
+  }
+
+  function onFrame(now: number): void {
+    const delta = Math.min(now - lastFrame, MAX_FRAME_DELTA);
+
+    frameId = null;
+    lastFrame = now;
+
+    try {
+      if (trackTimeline.value) {
+        if (isPlaying.value) advanceTrack(delta);
+      } else {
+        advanceLive(now);
+      }
+    } catch (error) {
+      logError('Error animating marker:', error);
+      isPlaying.value = false;
+      liveAnimation = null;
+    }
+
+    if (isPlaying.value || liveAnimation) requestFrame();
+  }
+
+  function requestFrame(): void {
+    if (frameId !== null) return;
+
+    if (!isPlaying.value && !liveAnimation) lastFrame = performance.now();
+    frameId = requestAnimationFrame(onFrame);
+  }
+
+  /**
+   * Plays the track, starting over once it ended
+   */
+  function play(): void {
+    if (!trackTimeline.value || isPlaying.value) return;
+
+    if (currentTime.value >= trackTotal.value) setTrackTime(0);
+
+    lastFrame = performance.now();
+    isPlaying.value = true;
+    requestFrame();
+  }
+
+  /**
+   * Pauses the track where the marker is
+   */
+  function pause(): void {
+    isPlaying.value = false;
+  }
+
+  /**
+   * Moves the marker to a point of the track, playback continues from there
+   * @param value - Progress from 0 to 1
+   */
+  function seek(value: number): void {
+    if (!trackTimeline.value) return;
+
+    setTrackTime(Math.max(0, Math.min(1, value)) * trackTotal.value);
+  }
+
+  const stopWatchers = [
+    // A new track starts from its first position
+    watch(
+      trackTimeline,
+      (timeline) => {
+        isPlaying.value = false;
+        currentTime.value = 0;
+        progress.value = 0;
+
+        if (!timeline) return;
+
+        liveAnimation = null;
+        setTrackTime(0);
+
+        if (autoplay) play();
+      },
+      { immediate: true },
+    ),
+    // Live positions are ignored while a track is set
+    watch(
+      lnglatValue,
+      (value) => {
+        if (trackTimeline.value || !value || !lngLatLikeHasValue(value)) {
+          return;
+        }
+
+        try {
+          const { lng, lat } = LngLat.convert(value);
+          const from = position.value;
+
+          if (!from || duration <= 0) {
+            liveAnimation = null;
+            position.value = [lng, lat];
+            return;
+          }
+
+          liveAnimation = { from, to: [lng, lat], start: performance.now() };
+          requestFrame();
+        } catch (error) {
+          logError('Error moving animated marker:', error, { lnglat: value });
+        }
+      },
+      { immediate: true },
+    ),
+  ];
+
+  onUnmounted(() => {
+    stopWatchers.forEach((stopWatcher) => stopWatcher());
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+  });
+
+  return {
+    ...markerActions,
+    position,
+    heading,
+    progress,
+    currentTime,
+    isPlaying,
+    play,
+    pause,
+    seek,
+  };
+}
@@ -1,5 +1,6 @@
 import { unref, watchEffect, computed, ref, onUnmounted } from 'vue';
 import { useLogger } from '@libs/composables';
+import { getDevicePixelRatio, isSvgString, rasterizeSvg } from '@libs/helpers';
 import type { Nullable, ImageDatas } from '@libs/types';
 import type { MaybeRef } from 'vue';
 import type { Map, StyleImageMetadata } from 'maplibre-gl';
@@ -18,6 +19,7 @@ export enum ImageStatus {
 interface CreateImageProps {
   map: MaybeRef<Nullable<Map>>;
   id: string;
+  /** Image data, an image URL or an inline SVG string */
   image: ImageDatas | string;
   options?: Partial<StyleImageMetadata>;
   debug?: boolean;
@@ -172,9 +174,15 @@ export function useCreateImage(props: CreateImageProps): CreateImageActions {
 
     try {
       let imageData: ImageDatas;
-
-      // Handle string URLs
-      if (typeof newImage === 'string') {
+      let imageOptions = props.options;
+
+      // Handle inline SVG strings and string URLs
+      if (typeof newImage === 'string' && isSvgString(newImage)) {
+        // Rendered at the device pixel ratio unless one is given
+        const pixelRatio = props.options?.pixelRatio ?? getDevicePixelRatio();
+        imageData = await rasterizeSvg(newImage, pixelRatio);
+        imageOptions = { ...props.options, pixelRatio };
+      } else if (typeof newImage === 'string') {
         imageData = await loadImage(newImage);
       } else {
         imageData = newImage;
@@ -194,7 +202,7 @@ export function useCreateImage(props: CreateImageProps): CreateImageActions {
             map.removeImage(props.id);
 
             // Add the new image
-            map.addImage(props.id, imageData, props.options);
+            map.addImage(props.id, imageData, imageOptions);
             imageStatus.value = ImageStatus.Updated;
           } catch (recreateError) {
             logError('Error recreating image:', recreateError, {
@@ -228,7 +236,7 @@ export function useCreateImage(props: CreateImageProps): CreateImageActions {
               map.removeImage(props.id);
 
               // Add the new image with updated dimensions
-              map.addImage(props.id, imageData, props.options);
+              map.addImage(props.id, imageData, imageOptions);
               imageStatus.value = ImageStatus.Created;
             } else {
               // Re-throw if it's a different error
@@ -237,7 +245,7 @@ export function useCreateImage(props: CreateImageProps): CreateImageActions {
           }
         }
       } else {
-        map.addImage(props.id, imageData, props.options);
+        map.addImage(props.id, imageData, imageOptions);
         imageStatus.value = ImageStatus.Created;
       }
 
@@ -6,9 +6,10 @@ import {
   unref,
   onUnmounted,
 } from 'vue';
-import { useLogger } from '@libs/composables';
+import { useLogger, useMapReloadEvent } from '@libs/composables';
 import { MapCreationStatus } from '@libs/enums';
-import { type CreateMaplibreActions } from '@libs/types';
+import { hasSource } from '@libs/helpers';
+import type { CreateMaplibreActions, Nullable } from '@libs/types';
 import type { MaybeRef } from 'vue';
 import { Map } from 'maplibre-gl';
 import type {
@@ -19,9 +20,14 @@ import type {
   CameraOptions,
   StyleSwapOptions,
   StyleOptions,
+  TerrainSpecification,
+  SkySpecification,
+  MapSourceDataEvent,
 } from 'maplibre-gl';
 
 interface CreateMaplibreProps extends MapOptions {
+  terrain?: Nullable<TerrainSpecification>;
+  sky?: Nullable<SkySpecification>;
   register?: (actions: SimplifiedCreateMaplibreActions) => void;
   debug?: boolean;
   onLoad?: (map: Map) => void;
@@ -56,7 +62,7 @@ export function useCreateMaplibre(
   styleRef: MaybeRef<StyleSpecification | string>,
   props: Omit<CreateMaplibreProps, 'container' | 'style'> = {},
 ) {
-  const { register, onLoad, onError, ...options } = props;
+  const { register, onLoad, onError, terrain, sky, ...options } = props;
   const { log, logError, logWarn } = useLogger(props.debug ?? false);
 
   // Enhanced state management
@@ -68,6 +74,11 @@ export function useCreateMaplibre(
     shallowRef<Omit<MapOptions, 'container' | 'style'>>(options);
   const retryCount = ref<number>(0);
   const currentStyle = shallowRef<StyleSpecification | string | null>(null);
+  const currentTerrain = shallowRef<Nullable<TerrainSpecification>>(
+    terrain ?? null,
+  );
+  const currentSky = shallowRef<Nullable<SkySpecification>>(sky ?? null);
+  const isStyleLoaded = ref<boolean>(false);
 
   // Computed properties for better reactivity and performance
   const mapInstanceComputed = computed(() => mapInstance.value);
@@ -92,6 +103,23 @@ export function useCreateMaplibre(
     return true;
   }
 
+  // Terrain and sky are part of the style, so they are reapplied after every style load
+  useMapReloadEvent({
+    map: mapInstance,
+    callbacks: {
+      onUnload: (map) => {
+        isStyleLoaded.value = false;
+        map.off('sourcedata', terrainSourceDataFn);
+      },
+      onLoad: (map) => {
+        isStyleLoaded.value = true;
+        if (currentTerrain.value) applyTerrain(map);
+        if (currentSky.value) applySky(map);
+      },
+    },
+    debug: props.debug,
+  });
+
   /**
    * Gets the current camera state
    * @returns Current camera options or null if not available
@@ -189,6 +217,7 @@ export function useCreateMaplibre(
       map.off('load', mapEventLoad);
       map.off('error', mapEventError);
       map.off('styledata', mapEventStyleData);
+      map.off('sourcedata', terrainSourceDataFn);
 
       // Remove the map
       map.remove();
@@ -444,6 +473,80 @@ export function useCreateMaplibre(
     }
   }
 
+  /**
+   * Applies the current terrain, waiting for its raster-dem source when it is not added yet
+   * @param map - Map instance to apply the terrain to
+   */
+  function applyTerrain(map: Map): void {
+    const terrainVal = currentTerrain.value;
+    map.off('sourcedata', terrainSourceDataFn);
+
+    try {
+      if (!terrainVal) {
+        if (map.getTerrain()) map.setTerrain(null);
+        return;
+      }
+
+      if (!hasSource(map, terrainVal.source)) {
+        log('Terrain source not found yet, waiting for it', terrainVal);
+        map.on('sourcedata', terrainSourceDataFn);
+        return;
+      }
+
+      map.setTerrain(terrainVal);
+    } catch (error) {
+      logError('Error applying map terrain:', error, { terrain: terrainVal });
+    }
+  }
+
+  /**
+   * Applies the terrain once its raster-dem source has been added
+   * @param e - Map source data event
+   */
+  function terrainSourceDataFn(e: MapSourceDataEvent): void {
+    const map = mapInstance.value;
+    if (!map || e.sourceId !== currentTerrain.value?.source) return;
+
+    applyTerrain(map);
+  }
+
+  /**
+   * Applies the current sky, resetting it when no sky is set
+   * @param map - Map instance to apply the sky to
+   */
+  function applySky(map: Map): void {
+    try {
+      // MapLibre resets the sky when called without a specification
+      map.setSky(currentSky.value as SkySpecification);
+    } catch (error) {
+      logError('Error applying map sky:', error, { sky: currentSky.value });
+    }
+  }
+
+  /**
+   * Enhanced terrain setter that survives style reloads
+   * @param terrainVal - Terrain bound to a raster-dem source, or null to disable it
+   */
+  function setTerrain(terrainVal: Nullable<TerrainSpecification>): void {
+    currentTerrain.value = terrainVal;
+
+    if (!validateMapOperation() || !isStyleLoaded.value) return;
+
+    applyTerrain(mapInstance.value!);
+  }
+
+  /**
+   * Enhanced sky setter that survives style reloads
+   * @param skyVal - Sky specification, or null to reset it
+   */
+  function setSky(skyVal: Nullable<SkySpecification>): void {
+    currentSky.value = skyVal;
+
+    if (!validateMapOperation() || !isStyleLoaded.value) return;
+
+    applySky(mapInstance.value!);
+  }
+
   /**
    * Destroys the map permanently
    */
@@ -494,6 +597,8 @@ export function useCreateMaplibre(
     setZoom,
     setBearing,
     setCenter,
+    setTerrain,
+    setSky,
 
     // Simplified essential actions
     getCurrentCamera,
@@ -45,6 +45,7 @@ interface CreatePopupProps {
   autoCreate?: boolean;
   closeOnClick?: boolean;
   closeButton?: boolean;
+  register?: (popup: Popup) => void;
 }
 
 interface CreatePopupActions {
@@ -90,6 +91,7 @@ export function useCreatePopup({
   autoCreate = true,
   closeOnClick = true,
   closeButton = true,
+  register,
 }: CreatePopupProps): CreatePopupActions {
   const { logError } = useLogger(debug);
   const popup = shallowRef<Nullable<Popup>>(null);
@@ -171,12 +173,11 @@ export function useCreatePopup({
       popup.value.on('close', closeEventFn);
 
       popupStatus.value = PopupStatus.Created;
+      register?.(popup.value);
 
-      // Show popup if requested
+      // Show popup if requested, adding it to the map would open it
       if (showVal && withMapVal) {
         show();
-      } else if (withMapVal) {
-        addToMap();
       }
     } catch (error) {
       popupStatus.value = PopupStatus.Error;
@@ -0,0 +1,169 @@
+import { computed, ref, shallowRef, unref, watch, onUnmounted } from 'vue';
+import { useLogger, useMapReloadEvent } from '@libs/composables';
+import { getDevicePixelRatio, getSpriteUrl, sliceSprite } from '@libs/helpers';
+import type { MaybeRef, Ref, ShallowRef } from 'vue';
+import type { Nullable, SpriteIndex } from '@libs/types';
+import type { Map, StyleImageMetadata } from 'maplibre-gl';
+
+interface CreateSpriteProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Sprite URL without extension, `.json` and `.png` are appended */
+  url: MaybeRef<Nullable<string> | undefined>;
+  /** Prefix added to the ids of the sprite images */
+  prefix?: string;
+  /** Pixel ratio deciding on the `@2x` variant (default: devicePixelRatio) */
+  pixelRatio?: number;
+  debug?: boolean;
+}
+
+interface CreateSpriteActions {
+  imageIds: ShallowRef<string[]>;
+  isLoading: Ref<boolean>;
+  loadSprite: (url: string) => Promise<void>;
+  removeSprite: () => void;
+}
+
+/**
+ * Composable for loading a sprite sheet into map images
+ * Loads the JSON index and the PNG sheet, using the `@2x` variant on high density
+ * screens, adds every image of the sheet with its metadata (such as `sdf`) and
+ * adds them again after style reloads
+ *
+ * @param props - Configuration options for the sprite
+ * @returns The added image ids and actions to load or remove the sprite
+ */
+export function useCreateSprite({
+  map,
+  url,
+  prefix = '',
+  pixelRatio = getDevicePixelRatio(),
+  debug = false,
+}: CreateSpriteProps): CreateSpriteActions {
+  const { logError } = useLogger(debug);
+  const imageIds = shallowRef<string[]>([]);
+  const isLoading = ref(!!unref(url));
+  let images: Record<
+    string,
+    { data: ImageData; options: Partial<StyleImageMetadata> }
+  > = {};
+  // Only the latest load is applied when the URL changes while loading
+  let loadCount = 0;
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const urlValue = computed(() => unref(url));
+  const suffix = pixelRatio > 1 ? '@2x' : '';
+
+  /**
+   * Adds the sprite images missing from the map
+   */
+  function addImages(mapRef: Map): void {
+    Object.entries(images).forEach(([name, { data, options }]) => {
+      const id = `${prefix}${name}`;
+
+      try {
+        if (mapRef.hasImage(id)) return;
+
+        mapRef.addImage(id, data, {
+          ...options,
+          pixelRatio: options.pixelRatio ?? (suffix ? 2 : 1),
+        });
+      } catch (error) {
+        logError('Error adding sprite image:', error, { imageId: id });
+      }
+    });
+  }
+
+  /**
+   * Removes the sprite images from the map
+   */
+  function removeSprite(): void {
+    const mapRef = mapInstance.value;
+
+    if (mapRef?.style) {
+      imageIds.value.forEach((id) => {
+        try {
+          if (mapRef.hasImage(id)) mapRef.removeImage(id);
+        } catch (error) {
+          logError('Error removing sprite image:', error, { imageId: id });
+        }
+      });
+    }
+
+    images = {};
+    imageIds.value = [];
+  }
+
+  /**
+   * Loads a sprite sheet and adds its images, replacing the current sprite
+   * @param spriteUrl - Sprite URL without extension
+   */
+  async function loadSprite(spriteUrl: string): Promise<void> {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef) return;
+
+    const requestId = ++loadCount;
+    isLoading.value = true;
+
+    try {
+      const [index, sheet] = await Promise.all([
+        fetch(getSpriteUrl(spriteUrl, suffix, 'json')).then((response) => {
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          return response.json() as Promise<SpriteIndex>;
+        }),
+        mapRef.loadImage(getSpriteUrl(spriteUrl, suffix, 'png')),
+      ]);
+
+      if (requestId !== loadCount) return;
+
+      removeSprite();
+      images = sliceSprite(sheet.data, index);
+      imageIds.value = Object.keys(images).map((name) => `${prefix}${name}`);
+      addImages(mapRef);
+    } catch (error) {
+      logError('Error loading sprite:', error, { url: spriteUrl });
+    } finally {
+      if (requestId === loadCount) isLoading.value = false;
+    }
+  }
+
+  // Images are dropped with the style, the sliced sheet is added again
+  useMapReloadEvent({
+    map,
+    callbacks: {
+      onLoad: addImages,
+      onUnload: () => {},
+    },
+    debug,
+  });
+
+  const stopWatcher = watch(
+    [mapInstance, urlValue],
+    ([mapRef, spriteUrl]) => {
+      if (!mapRef) return;
+
+      if (spriteUrl) {
+        loadSprite(spriteUrl);
+      } else {
+        loadCount++;
+        removeSprite();
+        isLoading.value = false;
+      }
+    },
+    { immediate: true },
+  );
+
+  onUnmounted(() => {
+    stopWatcher();
+    loadCount++;
+    removeSprite();
+  });
+
+  return {
+    imageIds,
+    isLoading,
+    loadSprite,
+    removeSprite,
+  };
+}
@@ -11,7 +11,13 @@ import {
 } from 'vue';
 import { useLogger } from '@libs/composables';
 import type { CreateGeoJsonSourceActions } from '@libs/composables';
-import type { GeoJSONSource, GeoJSONSourceSpecification } from 'maplibre-gl';
+import type {
+  GeoJSONSource,
+  GeoJSONSourceSpecification,
+  GeoJSONSourceDiff,
+  GeoJSONFeatureId,
+  SetClusterOptions,
+} from 'maplibre-gl';
 import type { Nullable } from '@libs/types';
 
 /**
@@ -30,7 +36,19 @@ interface GeoJsonSourceMethods {
   sourceId: ComputedRef<string | undefined>;
   getSource: ComputedRef<Nullable<GeoJSONSource>>;
   setData: (data: GeoJSONSourceSpecification['data']) => void;
+  updateData: (diff: GeoJSONSourceDiff) => void;
+  addFeatures: (features: GeoJSON.Feature[]) => void;
+  updateFeatures: (features: GeoJSON.Feature[]) => void;
+  removeFeatures: (ids: GeoJSONFeatureId[]) => void;
   refreshSource: () => void;
+  setClusterOptions: (options: SetClusterOptions) => void;
+  getClusterExpansionZoom: (clusterId: number) => Promise<Nullable<number>>;
+  getClusterChildren: (clusterId: number) => Promise<GeoJSON.Feature[]>;
+  getClusterLeaves: (
+    clusterId: number,
+    limit?: number,
+    offset?: number,
+  ) => Promise<GeoJSON.Feature[]>;
   isSourceReady: ComputedRef<boolean>;
   sourceStatus: ComputedRef<GeoJsonSourceStatus>;
 }
@@ -159,6 +177,54 @@ export function useGeoJsonSource(
     }
   }
 
+  /**
+   * Applies a diff to the registered source data
+   * @param diff - Features to add, update and remove
+   */
+  function updateData(diff: GeoJSONSourceDiff): void {
+    try {
+      instanceRef.value?.updateData(diff);
+    } catch (error) {
+      logError('Error updating GeoJSON source data:', error);
+    }
+  }
+
+  /**
+   * Adds features to the registered source
+   * @param features - Features with unique ids
+   */
+  function addFeatures(features: GeoJSON.Feature[]): void {
+    try {
+      instanceRef.value?.addFeatures(features);
+    } catch (error) {
+      logError('Error adding GeoJSON source features:', error);
+    }
+  }
+
+  /**
+   * Replaces existing features of the registered source, matched by id
+   * @param features - Updated features
+   */
+  function updateFeatures(features: GeoJSON.Feature[]): void {
+    try {
+      instanceRef.value?.updateFeatures(features);
+    } catch (error) {
+      logError('Error updating GeoJSON source features:', error);
+    }
+  }
+
+  /**
+   * Removes features from the registered source
+   * @param ids - Ids of the features to remove
+   */
+  function removeFeatures(ids: GeoJSONFeatureId[]): void {
+    try {
+      instanceRef.value?.removeFeatures(ids);
+    } catch (error) {
+      logError('Error removing GeoJSON source features:', error);
+    }
+  }
+
   /**
    * Refreshes the source by triggering a re-registration if auto-refresh is enabled
    */
@@ -175,6 +241,58 @@ export function useGeoJsonSource(
     }
   }
 
+  /**
+   * Updates the clustering options of the registered source
+   * @param options - Clustering options to apply
+   */
+  function setClusterOptions(options: SetClusterOptions): void {
+    try {
+      instanceRef.value?.setClusterOptions(options);
+    } catch (error) {
+      logError('Error setting GeoJSON source cluster options:', error);
+    }
+  }
+
+  /**
+   * Gets the zoom level at which the given cluster expands
+   * @param clusterId - Value of the cluster's `cluster_id` property
+   */
+  async function getClusterExpansionZoom(
+    clusterId: number,
+  ): Promise<Nullable<number>> {
+    if (!instanceRef.value) return null;
+
+    return instanceRef.value.getClusterExpansionZoom(clusterId);
+  }
+
+  /**
+   * Gets the children of the given cluster on the next zoom level
+   * @param clusterId - Value of the cluster's `cluster_id` property
+   */
+  async function getClusterChildren(
+    clusterId: number,
+  ): Promise<GeoJSON.Feature[]> {
+    if (!instanceRef.value) return [];
+
+    return instanceRef.value.getClusterChildren(clusterId);
+  }
+
+  /**
+   * Gets one page of the original points belonging to the given cluster
+   * @param clusterId - Value of the cluster's `cluster_id` property
+   * @param limit - Maximum number of points to return
+   * @param offset - Number of points to skip, for paging
+   */
+  async function getClusterLeaves(
+    clusterId: number,
+    limit?: number,
+    offset?: number,
+  ): Promise<GeoJSON.Feature[]> {
+    if (!instanceRef.value) return [];
+
+    return instanceRef.value.getClusterLeaves(clusterId, limit, offset);
+  }
+
   // Cleanup on scope disposal
   onScopeDispose(() => {
     cleanupWatchScope();
@@ -185,7 +303,15 @@ export function useGeoJsonSource(
     sourceId: computed(() => sourceIdRef.value),
     getSource: computed(() => sourceRef.value),
     setData,
+    updateData,
+    addFeatures,
+    updateFeatures,
+    removeFeatures,
     refreshSource,
+    setClusterOptions,
+    getClusterExpansionZoom,
+    getClusterChildren,
+    getClusterLeaves,
     isSourceReady,
     sourceStatus: computed(() => sourceStatus.value),
   };
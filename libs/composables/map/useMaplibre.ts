@@ -19,7 +19,9 @@ import type {
   PointLike,
   QueryRenderedFeaturesOptions,
   QuerySourceFeatureOptions,
+  SkySpecification,
   StyleSpecification,
+  TerrainSpecification,
 } from 'maplibre-gl';
 
 import { useLogger } from '@libs/composables';
@@ -289,6 +291,9 @@ export function useMaplibre(
     setZoom: (zoom: number) => getInstance()?.setZoom?.(zoom),
     setBearing: (bearing: number) => getInstance()?.setBearing?.(bearing),
     setCenter: (center: LngLatLike) => getInstance()?.setCenter?.(center),
+    setTerrain: (terrain: Nullable<TerrainSpecification>) =>
+      getInstance()?.setTerrain?.(terrain),
+    setSky: (sky: Nullable<SkySpecification>) => getInstance()?.setSky?.(sky),
   };
 
   // Cleanup on component unmount
@@ -0,0 +1,298 @@
+import { computed, shallowRef, unref, watch, onUnmounted } from 'vue';
+import { useFlyTo, useLogger, useMapEventListener } from '@libs/composables';
+import { getFeatureId } from '@libs/helpers';
+import type { MaybeRef, ShallowRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type { Feature, FeatureCollection, Point } from 'geojson';
+import type {
+  Map,
+  FlyToOptions,
+  GeoJSONFeatureId,
+  PromoteIdSpecification,
+} from 'maplibre-gl';
+
+/**
+ * Point shown as a single marker
+ */
+export interface MarkerClusterPoint {
+  id: GeoJSONFeatureId;
+  feature: Feature<Point>;
+  lnglat: [number, number];
+}
+
+/**
+ * Group of points shown as one cluster marker
+ */
+export interface MarkerCluster {
+  /** Derived from the first point of the cluster, stable while it leads the cluster */
+  id: string;
+  lnglat: [number, number];
+  count: number;
+  children: MarkerClusterPoint[];
+}
+
+interface MarkerClusterProps {
+  map: MaybeRef<Nullable<Map>>;
+  features: MaybeRef<FeatureCollection<Point> | Feature<Point>[]>;
+  /** Property used as feature id when features have no `id` */
+  promoteId?: PromoteIdSpecification;
+  /** Cluster radius in pixels (default: 60) */
+  radius?: number;
+  /** Last zoom level at which points are clustered (default: 16) */
+  maxZoom?: number;
+  /** Minimum number of points forming a cluster (default: 2) */
+  minPoints?: number;
+  /** Additional fly options used when expanding a cluster */
+  flyToOptions?: Omit<FlyToOptions, 'center' | 'zoom'>;
+  debug?: boolean;
+}
+
+interface MarkerClusterActions {
+  clusters: ShallowRef<MarkerCluster[]>;
+  points: ShallowRef<MarkerClusterPoint[]>;
+  getExpansionZoom: (cluster: MarkerCluster) => number;
+  expandCluster: (cluster: MarkerCluster) => Promise<void>;
+  refresh: () => void;
+}
+
+// World size in pixels at zoom 0, matching MapLibre's tile size
+const TILE_SIZE = 512;
+const MAX_LATITUDE = 85.051129;
+
+function projectPosition(
+  [lng, lat]: [number, number],
+  worldSize: number,
+): [number, number] {
+  const sin = Math.sin(
+    (Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat)) * Math.PI) / 180,
+  );
+
+  return [
+    ((lng + 180) / 360) * worldSize,
+    (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * worldSize,
+  ];
+}
+
+function unprojectPosition(
+  [x, y]: [number, number],
+  worldSize: number,
+): [number, number] {
+  const lat = Math.atan(Math.sinh(Math.PI * (1 - (2 * y) / worldSize)));
+  return [(x / worldSize) * 360 - 180, (lat * 180) / Math.PI];
+}
+
+/**
+ * Greedy grid clustering: each point not clustered yet gathers the free points
+ * within `radius` pixels, looked up in the neighbouring grid cells
+ */
+function clusterPoints(
+  points: MarkerClusterPoint[],
+  zoom: number,
+  radius: number,
+  minPoints: number,
+): { clusters: MarkerCluster[]; points: MarkerClusterPoint[] } {
+  const worldSize = TILE_SIZE * 2 ** zoom;
+  const projected = points.map(({ lnglat }) =>
+    projectPosition(lnglat, worldSize),
+  );
+  const cells: Record<string, number[]> = {};
+  const clustered = new Set<number>();
+  const clusters: MarkerCluster[] = [];
+  const singles: number[] = [];
+
+  projected.forEach(([x, y], index) => {
+    const key = `${Math.floor(x / radius)}:${Math.floor(y / radius)}`;
+    (cells[key] ??= []).push(index);
+  });
+
+  projected.forEach(([x, y], index) => {
+    if (clustered.has(index)) return;
+
+    const cellX = Math.floor(x / radius);
+    const cellY = Math.floor(y / radius);
+    const members = [index];
+    clustered.add(index);
+
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        cells[`${cellX + dx}:${cellY + dy}`]?.forEach((other) => {
+          if (clustered.has(other)) return;
+
+          const [otherX, otherY] = projected[other];
+          if (Math.hypot(otherX - x, otherY - y) > radius) return;
+
+          members.push(other);
+          clustered.add(other);
+        });
+      }
+    }
+
+    if (members.length < minPoints) {
+      singles.push(...members);
+      return;
+    }
+
+    const sumX = members.reduce((sum, member) => sum + projected[member][0], 0);
+    const sumY = members.reduce((sum, member) => sum + projected[member][1], 0);
+
+    clusters.push({
+      id: `cluster-${points[index].id}`,
+      lnglat: unprojectPosition(
+        [sumX / members.length, sumY / members.length],
+        worldSize,
+      ),
+      count: members.length,
+      children: members.map((member) => points[member]),
+    });
+  });
+
+  // Input order keeps keyed markers in place between updates
+  return {
+    clusters,
+    points: singles.sort((a, b) => a - b).map((member) => points[member]),
+  };
+}
+
+/**
+ * Composable for clustering HTML markers
+ * Groups points with a grid index at the current integer zoom level and
+ * recomputes the groups when the map stops moving at another zoom level
+ *
+ * @param props - Configuration options for the clustering
+ * @returns The clusters, the unclustered points and actions to expand clusters
+ */
+export function useMarkerCluster({
+  map,
+  features,
+  promoteId,
+  radius = 60,
+  maxZoom = 16,
+  minPoints = 2,
+  flyToOptions = {},
+  debug = false,
+}: MarkerClusterProps): MarkerClusterActions {
+  const { logError, logWarn } = useLogger(debug);
+  const { flyTo } = useFlyTo({ map, debug });
+  const clusters = shallowRef<MarkerCluster[]>([]);
+  const points = shallowRef<MarkerClusterPoint[]>([]);
+  let clusteredZoom: Nullable<number> = null;
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const allPoints = computed((): MarkerClusterPoint[] => {
+    const value = unref(features);
+    const list = Array.isArray(value) ? value : value.features;
+    let missingIds = 0;
+
+    const result = list
+      .filter((feature) => feature.geometry?.type === 'Point')
+      .map((feature, index) => {
+        let id = getFeatureId(feature, promoteId);
+
+        if (id === undefined) {
+          id = index;
+          missingIds++;
+        }
+
+        const [lng, lat] = feature.geometry.coordinates;
+        return { id, feature, lnglat: [lng, lat] as [number, number] };
+      });
+
+    if (missingIds) {
+      logWarn(`${missingIds} features have no id, they are keyed by index`);
+    }
+
+    return result;
+  });
+
+  /**
+   * Clusters the points for the current zoom level
+   * @param force - Recompute even if the zoom level did not change
+   */
+  function update(force = false): void {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef) return;
+
+    const zoom = Math.floor(mapRef.getZoom());
+    if (!force && zoom === clusteredZoom) return;
+
+    try {
+      if (zoom > maxZoom) {
+        clusters.value = [];
+        points.value = allPoints.value;
+      } else {
+        const result = clusterPoints(allPoints.value, zoom, radius, minPoints);
+        clusters.value = result.clusters;
+        points.value = result.points;
+      }
+
+      clusteredZoom = zoom;
+    } catch (error) {
+      logError('Error clustering markers:', error);
+    }
+  }
+
+  /**
+   * Clusters the points again right away
+   */
+  function refresh(): void {
+    update(true);
+  }
+
+  /**
+   * Zoom level at which the points of a cluster no longer form one cluster
+   * @param cluster - Cluster to expand
+   */
+  function getExpansionZoom(cluster: MarkerCluster): number {
+    const start = (clusteredZoom ?? 0) + 1;
+
+    for (let zoom = start; zoom <= maxZoom; zoom++) {
+      const result = clusterPoints(cluster.children, zoom, radius, minPoints);
+      const [first] = result.clusters;
+
+      if (result.clusters.length !== 1 || first.count !== cluster.count) {
+        return zoom;
+      }
+    }
+
+    return maxZoom + 1;
+  }
+
+  /**
+   * Flies to the zoom level at which a cluster expands
+   * @param cluster - Cluster to expand
+   */
+  async function expandCluster(cluster: MarkerCluster): Promise<void> {
+    try {
+      await flyTo({
+        ...flyToOptions,
+        center: cluster.lnglat,
+        zoom: getExpansionZoom(cluster),
+      });
+    } catch (error) {
+      logError('Error expanding marker cluster:', error, { id: cluster.id });
+    }
+  }
+
+  useMapEventListener({
+    map,
+    event: 'moveend',
+    on: () => update(),
+    debug,
+  });
+
+  const stopWatcher = watch([mapInstance, allPoints], () => update(true), {
+    immediate: true,
+  });
+
+  onUnmounted(stopWatcher);
+
+  return {
+    clusters,
+    points,
+    getExpansionZoom,
+    expandCluster,
+    refresh,
+  };
+}
@@ -0,0 +1,314 @@
+import { computed, shallowRef, toRaw, unref, watch, onUnmounted } from 'vue';
+import { diff } from '@maplibre/maplibre-gl-style-spec';
+import { useLogger, useMapReloadEvent } from '@libs/composables';
+import type { MaybeRef, ShallowRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  DiffCommand,
+  DiffOperations,
+  GeoJSONSource,
+  LayerSpecification,
+  StyleSpecification,
+} from 'maplibre-gl';
+
+type StyleCommand = DiffCommand<DiffOperations>;
+
+interface StyleProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Desired style, changes are applied as minimal operations */
+  style: MaybeRef<Nullable<StyleSpecification>>;
+  /** Called with the operations applied for each change */
+  onApply?: (commands: StyleCommand[]) => void;
+  debug?: boolean;
+}
+
+interface StyleActions {
+  appliedStyle: ShallowRef<Nullable<StyleSpecification>>;
+  lastCommands: ShallowRef<StyleCommand[]>;
+  applyStyle: (style: StyleSpecification) => StyleCommand[];
+  getCommands: (style: StyleSpecification) => StyleCommand[];
+}
+
+// Camera commands are skipped like MapLibre's own diffing, the style camera is
+// only the initial view
+const CAMERA_COMMANDS: DiffOperations[] = [
+  'setCenter',
+  'setCenterAltitude',
+  'setZoom',
+  'setBearing',
+  'setPitch',
+  'setRoll',
+];
+
+/**
+ * Deep copy of a style, so later in place changes of reactive state are diffed
+ */
+function cloneStyle(style: StyleSpecification): StyleSpecification {
+  return JSON.parse(JSON.stringify(toRaw(style)));
+}
+
+function diffStyles(
+  previousStyle: StyleSpecification,
+  nextStyle: StyleSpecification,
+): StyleCommand[] {
+  return diff(previousStyle, nextStyle).filter(
+    ({ command }) => !CAMERA_COMMANDS.includes(command),
+  );
+}
+
+/**
+ * Composable for driving the map style from a reactive StyleSpecification
+ * Diffs the desired style with `diff` from the style specification and applies
+ * the resulting operations through the Map API. On each style load the loaded
+ * stylesheet is the baseline, later changes are diffed against the last applied
+ * style so sources and layers added by components are left in place
+ *
+ * @param props - Configuration options for the style
+ * @returns The applied style, the last operations and actions to apply a style
+ */
+export function useStyle({
+  map,
+  style,
+  onApply,
+  debug = false,
+}: StyleProps): StyleActions {
+  const { logError, logWarn } = useLogger(debug);
+  const appliedStyle = shallowRef<Nullable<StyleSpecification>>(null);
+  const lastCommands = shallowRef<StyleCommand[]>([]);
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+
+  /**
+   * Map style restricted to the sources and layers of the loaded stylesheet
+   * Those added since by components are left out, so no diff removes them
+   */
+  function getLoadedStyle(mapRef: Map): Nullable<StyleSpecification> {
+    // Undefined until the map style is loaded
+    const currentStyle = mapRef.getStyle();
+    const loadedStyle = mapRef.style?.stylesheet;
+
+    if (!currentStyle || !loadedStyle) return currentStyle ?? null;
+
+    const layerIds = new Set(loadedStyle.layers.map(({ id }) => id));
+    const sourceIds = new Set(Object.keys(loadedStyle.sources));
+
+    return {
+      ...currentStyle,
+      sources: Object.fromEntries(
+        Object.entries(currentStyle.sources).filter(([id]) =>
+          sourceIds.has(id),
+        ),
+      ),
+      layers: currentStyle.layers.filter(({ id }) => layerIds.has(id)),
+    };
+  }
+
+  /**
+   * Style the next diff starts from
+   */
+  function getBaseline(mapRef: Map): Nullable<StyleSpecification> {
+    return appliedStyle.value ?? getLoadedStyle(mapRef);
+  }
+
+  /**
+   * Operations turning the current style into the given one
+   * @param nextStyle - Desired style
+   */
+  function getCommands(nextStyle: StyleSpecification): StyleCommand[] {
+    const mapRef = mapInstance.value;
+    const baseline = mapRef && getBaseline(mapRef);
+
+    if (!baseline) return [];
+
+    return diffStyles(baseline, cloneStyle(nextStyle));
+  }
+
+  /**
+   * Adds a layer again to apply a change the Map API cannot set in place
+   */
+  function replaceLayer(
+    mapRef: Map,
+    layerId: string,
+    nextStyle: StyleSpecification,
+  ): void {
+    const index = nextStyle.layers.findIndex(({ id }) => id === layerId);
+    const layer = nextStyle.layers[index];
+
+    if (!layer) return;
+
+    const beforeId = nextStyle.layers
+      .slice(index + 1)
+      .find(({ id }) => mapRef.getLayer(id))?.id;
+
+    if (mapRef.getLayer(layerId)) mapRef.removeLayer(layerId);
+    mapRef.addLayer(layer, beforeId);
+  }
+
+  /**
+   * Applies one diff operation through the Map API
+   */
+  function applyCommand(
+    mapRef: Map,
+    { command, args }: StyleCommand,
+    previousStyle: StyleSpecification,
+    nextStyle: StyleSpecification,
+  ): void {
+    switch (command) {
+      case 'setStyle':
+        logWarn('Style change cannot be diffed, setting the whole style');
+        mapRef.setStyle(nextStyle, { diff: false });
+        break;
+      case 'addLayer': {
+        const [layer, beforeId] = args as [LayerSpecification, string | null];
+        mapRef.addLayer(layer, beforeId ?? undefined);
+        break;
+      }
+      case 'removeLayer':
+        mapRef.removeLayer(args[0] as string);
+        break;
+      case 'setPaintProperty': {
+        const [layerId, name, value] = args as [string, string, unknown];
+        mapRef.setPaintProperty(layerId, name, value);
+        break;
+      }
+      case 'setLayoutProperty': {
+        const [layerId, name, value] = args as [string, string, unknown];
+        mapRef.setLayoutProperty(layerId, name, value);
+        break;
+      }
+      case 'setFilter': {
+        const [layerId, filter] = args as [string, any];
+        mapRef.setFilter(layerId, filter);
+        break;
+      }
+      case 'setLayerZoomRange': {
+        const [layerId, minZoom, maxZoom] = args as [string, number, number];
+        mapRef.setLayerZoomRange(layerId, minZoom, maxZoom);
+        break;
+      }
+      case 'setLayerProperty':
+        replaceLayer(mapRef, args[0] as string, nextStyle);
+        break;
+      case 'addSource': {
+        const [sourceId, source] = args as [string, any];
+        mapRef.addSource(sourceId, source);
+        break;
+      }
+      case 'removeSource':
+        mapRef.removeSource(args[0] as string);
+        break;
+      case 'setGeoJSONSourceData': {
+        const [sourceId, data] = args as [string, any];
+        mapRef.getSource<GeoJSONSource>(sourceId)?.setData(data);
+        break;
+      }
+      case 'setSprite':
+        mapRef.setSprite((args[0] as string) ?? null);
+        break;
+      case 'setGlyphs':
+        mapRef.setGlyphs((args[0] as string) ?? null);
+        break;
+      case 'setLight':
+        mapRef.setLight(nextStyle.light ?? {});
+        break;
+      case 'setTerrain':
+        mapRef.setTerrain(nextStyle.terrain ?? null);
+        break;
+      case 'setSky':
+        mapRef.setSky(nextStyle.sky ?? {});
+        break;
+      case 'setProjection':
+        if (nextStyle.projection) mapRef.setProjection(nextStyle.projection);
+        break;
+      case 'setGlobalState': {
+        const nextState = nextStyle.state ?? {};
+
+        Object.keys(previousStyle.state ?? {}).forEach((name) => {
+          if (!(name in nextState)) mapRef.setGlobalStateProperty(name, null);
+        });
+        Object.entries(nextState).forEach(([name, { default: value }]) =>
+          mapRef.setGlobalStateProperty(name, value),
+        );
+        break;
+      }
+      default:
+        // setTransition has no Map setter, the style transition keeps its value
+        logWarn('Unsupported style operation skipped:', { command });
+    }
+  }
+
+  /**
+   * Applies the operations turning the current style into the given one
+   * @param nextStyle - Desired style
+   * @returns Applied operations
+   */
+  function applyStyle(nextStyle: StyleSpecification): StyleCommand[] {
+    const mapRef = mapInstance.value;
+    const previousStyle = mapRef && getBaseline(mapRef);
+
+    if (!mapRef || !previousStyle) return [];
+
+    const target = cloneStyle(nextStyle);
+    let commands: StyleCommand[] = [];
+
+    try {
+      commands = diffStyles(previousStyle, target);
+      appliedStyle.value = target;
+
+      for (const command of commands) {
+        try {
+          applyCommand(mapRef, command, previousStyle, target);
+        } catch (error) {
+          logError('Error applying style operation:', error, command);
+        }
+
+        // The whole style was replaced, later operations are included
+        if (command.command === 'setStyle') break;
+      }
+
+      lastCommands.value = commands;
+      if (commands.length) onApply?.(commands);
+    } catch (error) {
+      logError('Error applying style:', error);
+    }
+
+    return commands;
+  }
+
+  // A new style starts from the loaded stylesheet, components may have re-added
+  // their sources and layers before this handler runs
+  useMapReloadEvent({
+    map,
+    callbacks: {
+      onLoad: () => {
+        const nextStyle = unref(style);
+        appliedStyle.value = null;
+
+        if (nextStyle) applyStyle(nextStyle);
+      },
+      onUnload: () => {
+        appliedStyle.value = null;
+      },
+    },
+    debug,
+  });
+
+  const stopWatcher = watch(
+    () => unref(style),
+    (nextStyle) => {
+      if (nextStyle) applyStyle(nextStyle);
+    },
+    { deep: true },
+  );
+
+  onUnmounted(stopWatcher);
+
+  return {
+    appliedStyle,
+    lastCommands,
+    applyStyle,
+    getCommands,
+  };
+}
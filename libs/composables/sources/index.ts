@@ -1 +1,8 @@
 export * from './useCreateGeoJsonSource';
+export * from './useCreateSource';
+export * from './useCreateVectorSource';
+export * from './useCreateRasterSource';
+export * from './useCreateRasterDemSource';
+export * from './useCreateImageSource';
+export * from './useCreateVideoSource';
+export * from './useCreateCanvasSource';
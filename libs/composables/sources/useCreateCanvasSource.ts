@@ -0,0 +1,195 @@
+import { onMounted, unref, watch } from 'vue';
+import { useCreateSource, useLogger } from '@libs/composables';
+import type { MaybeRef, ShallowRef } from 'vue';
+import type { SourceStatus } from '@libs/composables';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  Coordinates,
+  CanvasSource,
+  CanvasSourceSpecification,
+} from 'maplibre-gl';
+
+export interface CreateCanvasSourceActions {
+  sourceId: string;
+  getSource: ShallowRef<Nullable<CanvasSource>>;
+  getCanvas: () => Nullable<HTMLCanvasElement>;
+  setCoordinates: (coordinates: Coordinates) => void;
+  play: () => void;
+  pause: () => void;
+  removeSource: () => void;
+  refreshSource: () => void;
+  sourceStatus: Readonly<SourceStatus>;
+  isSourceReady: boolean;
+}
+
+interface CreateCanvasSourceProps {
+  map: MaybeRef<Nullable<Map>>;
+  id?: string;
+  canvas: MaybeRef<Nullable<string | HTMLCanvasElement>>;
+  coordinates: Coordinates;
+  animate?: boolean;
+  debug?: boolean;
+  register?: (actions: CreateCanvasSourceActions, map: Map) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Canvas Sources
+ * Provides a georeferenced canvas source with playback controls, error handling and reload handling
+ *
+ * The canvas may be a template ref: it is resolved when the component mounts
+ * and the source is recreated whenever it changes afterwards
+ *
+ * @param props - Configuration options for the canvas source
+ * @returns Enhanced actions and state for the canvas source
+ */
+export function useCreateCanvasSource({
+  map,
+  id,
+  canvas,
+  coordinates,
+  animate,
+  debug = false,
+  register,
+}: CreateCanvasSourceProps): CreateCanvasSourceActions {
+  const { logWarn, logError } = useLogger(debug);
+
+  if (coordinates?.length !== 4) {
+    logWarn('Warning: Canvas source requires four `coordinates`', { id });
+  }
+
+  const {
+    sourceId,
+    getSource,
+    updateSpecification,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  } = useCreateSource<CanvasSource, CanvasSourceSpecification>({
+    map,
+    id,
+    specification: {
+      type: 'canvas',
+      canvas: unref(canvas) as string | HTMLCanvasElement,
+      coordinates,
+      ...(animate !== undefined && { animate }),
+    },
+    debug,
+    register: (actions, mapInstance) => {
+      register?.(
+        {
+          sourceId: actions.sourceId,
+          getSource: actions.getSource,
+          getCanvas,
+          setCoordinates,
+          play,
+          pause,
+          removeSource: actions.removeSource,
+          refreshSource: actions.refreshSource,
+          sourceStatus: actions.sourceStatus,
+          isSourceReady: actions.isSourceReady,
+        },
+        mapInstance,
+      );
+    },
+  });
+
+  // The source is added on the tick after mount, so template refs are resolved here first
+  onMounted(() => {
+    const canvasVal = unref(canvas);
+
+    if (!canvasVal) {
+      logWarn('Warning: Canvas source requires a `canvas` element or ID', {
+        sourceId,
+      });
+      return;
+    }
+
+    updateSpecification({ canvas: canvasVal });
+  });
+
+  // MapLibre cannot swap the canvas in place, so the source is recreated
+  watch(
+    () => unref(canvas),
+    (canvasVal) => {
+      if (!canvasVal) return;
+
+      updateSpecification({ canvas: canvasVal });
+
+      if (getSource.value) refreshSource();
+    },
+  );
+
+  /**
+   * Gets the HTML canvas element backing the source
+   * @returns Canvas element or null if the source is not loaded
+   */
+  function getCanvas(): Nullable<HTMLCanvasElement> {
+    return getSource.value?.getCanvas() ?? null;
+  }
+
+  /**
+   * Sets the corner coordinates of the canvas source with error handling
+   * @param newCoordinates - Corner coordinates, top left first and clockwise
+   */
+  function setCoordinates(newCoordinates: Coordinates): void {
+    if (newCoordinates?.length !== 4) {
+      logWarn('Warning: Canvas source requires four coordinates', {
+        coordinates: newCoordinates,
+      });
+      return;
+    }
+
+    updateSpecification({ coordinates: newCoordinates });
+
+    if (!getSource.value) return;
+
+    try {
+      getSource.value.setCoordinates(newCoordinates);
+    } catch (error) {
+      logError('Error setting canvas source coordinates:', error, {
+        sourceId,
+      });
+    }
+  }
+
+  /**
+   * Starts re-reading the canvas on every frame with error handling
+   */
+  function play(): void {
+    updateSpecification({ animate: true });
+
+    try {
+      getSource.value?.play();
+    } catch (error) {
+      logError('Error playing canvas source:', error, { sourceId });
+    }
+  }
+
+  /**
+   * Stops re-reading the canvas on every frame with error handling
+   */
+  function pause(): void {
+    updateSpecification({ animate: false });
+
+    try {
+      getSource.value?.pause();
+    } catch (error) {
+      logError('Error pausing canvas source:', error, { sourceId });
+    }
+  }
+
+  return {
+    sourceId,
+    getSource,
+    getCanvas,
+    setCoordinates,
+    play,
+    pause,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  };
+}
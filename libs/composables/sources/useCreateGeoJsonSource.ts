@@ -7,7 +7,13 @@ import {
   nextTick,
   ref,
 } from 'vue';
-import { getMainVersion, getNanoid, hasSource } from '@libs/helpers';
+import {
+  getFeatureDiff,
+  getFeatureId,
+  getMainVersion,
+  getNanoid,
+  hasSource,
+} from '@libs/helpers';
 import { useMapReloadEvent, useLogger } from '@libs/composables';
 import type { MaybeRef, ShallowRef } from 'vue';
 import type { Nullable } from '@libs/types';
@@ -16,6 +22,10 @@ import type {
   GeoJSONSource,
   MapSourceDataEvent,
   GeoJSONSourceSpecification,
+  GeoJSONSourceDiff,
+  GeoJSONFeatureDiff,
+  GeoJSONFeatureId,
+  SetClusterOptions,
 } from 'maplibre-gl';
 
 /**
@@ -28,12 +38,32 @@ export enum SourceStatus {
   Error = 'error',
 }
 
+/**
+ * Clustering options of a GeoJSON source
+ */
+export type GeoJsonClusterOptions = Pick<
+  GeoJSONSourceSpecification,
+  'cluster' | 'clusterRadius' | 'clusterMaxZoom' | 'clusterProperties'
+>;
+
 export interface CreateGeoJsonSourceActions {
   sourceId: string;
   getSource: ShallowRef<Nullable<GeoJSONSource>>;
   setData: (data: GeoJSONSourceSpecification['data']) => void;
+  updateData: (diff: GeoJSONSourceDiff) => void;
+  addFeatures: (features: GeoJSON.Feature[]) => void;
+  updateFeatures: (features: GeoJSON.Feature[]) => void;
+  removeFeatures: (ids: GeoJSONFeatureId[]) => void;
   removeSource: () => void;
   refreshSource: () => void;
+  setClusterOptions: (options: SetClusterOptions) => void;
+  getClusterExpansionZoom: (clusterId: number) => Promise<Nullable<number>>;
+  getClusterChildren: (clusterId: number) => Promise<GeoJSON.Feature[]>;
+  getClusterLeaves: (
+    clusterId: number,
+    limit?: number,
+    offset?: number,
+  ) => Promise<GeoJSON.Feature[]>;
   sourceStatus: Readonly<SourceStatus>;
   isSourceReady: boolean;
 }
@@ -43,6 +73,10 @@ interface CreateGeoJsonSourceProps {
   id?: string;
   data: GeoJSONSourceSpecification['data'];
   options?: Partial<GeoJSONSourceSpecification>;
+  cluster?: boolean;
+  clusterRadius?: number;
+  clusterMaxZoom?: number;
+  clusterProperties?: GeoJSONSourceSpecification['clusterProperties'];
   debug?: boolean;
   register?: (actions: CreateGeoJsonSourceActions, map: Map) => void;
 }
@@ -55,6 +89,15 @@ const DEFAULT_GEOJSON_DATA: GeoJSONSourceSpecification['data'] = {
   features: [],
 };
 
+/**
+ * Drops keys set to `undefined` so they do not override source defaults
+ */
+function omitUndefined<T extends object>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined),
+  ) as T;
+}
+
 /**
  * Composable for creating and managing MapLibre GL GeoJSON Sources
  * Provides reactive GeoJSON source with error handling, performance optimizations, and enhanced API
@@ -67,13 +110,24 @@ export function useCreateGeoJsonSource({
   id,
   data = DEFAULT_GEOJSON_DATA,
   options = {},
+  cluster,
+  clusterRadius,
+  clusterMaxZoom,
+  clusterProperties,
   debug = false,
   register,
 }: CreateGeoJsonSourceProps): CreateGeoJsonSourceActions {
-  const { logError } = useLogger(debug);
+  const { logError, logWarn } = useLogger(debug);
   const sourceId = getNanoid(id);
   const source = shallowRef<Nullable<GeoJSONSource>>(null);
   const sourceStatus = ref<SourceStatus>(SourceStatus.NotCreated);
+  // Kept up to date by setClusterOptions so the source is re-added with the latest values
+  let clusterOptions: GeoJsonClusterOptions = omitUndefined({
+    cluster,
+    clusterRadius,
+    clusterMaxZoom,
+    clusterProperties,
+  });
 
   // Computed properties for better reactivity and performance
   const getSource = computed(() => source.value);
@@ -116,8 +170,16 @@ export function useCreateGeoJsonSource({
             sourceId,
             getSource,
             setData,
+            updateData,
+            addFeatures,
+            updateFeatures,
+            removeFeatures,
             removeSource,
             refreshSource,
+            setClusterOptions,
+            getClusterExpansionZoom,
+            getClusterChildren,
+            getClusterLeaves,
             sourceStatus: sourceStatus.value as Readonly<SourceStatus>,
             isSourceReady: isSourceReady.value,
           },
@@ -148,6 +210,7 @@ export function useCreateGeoJsonSource({
     try {
       const sourceSpec: GeoJSONSourceSpecification = {
         ...options,
+        ...clusterOptions,
         type: 'geojson',
         data,
       };
@@ -180,6 +243,68 @@ export function useCreateGeoJsonSource({
     }
   }
 
+  /**
+   * Applies a diff to the source data without resending the whole collection
+   * Requires every feature to have a unique id, either on the feature or through `promoteId`
+   * @param diff - Features to add, update and remove
+   */
+  function updateData(diff: GeoJSONSourceDiff): void {
+    const map = mapInstance.value;
+
+    if (!map) return;
+
+    if (!source.value || !hasSource(map, sourceId)) return;
+
+    try {
+      source.value.updateData(diff);
+    } catch (error) {
+      logError('Error updating GeoJSON source data:', error, { sourceId });
+    }
+  }
+
+  /**
+   * Adds features to the source
+   * @param features - Features with unique ids
+   */
+  function addFeatures(features: GeoJSON.Feature[]): void {
+    if (!features.length) return;
+
+    updateData({ add: features });
+  }
+
+  /**
+   * Replaces the geometry and properties of existing features, matched by id
+   * @param features - Updated features
+   */
+  function updateFeatures(features: GeoJSON.Feature[]): void {
+    const update: GeoJSONFeatureDiff[] = [];
+
+    features.forEach((feature) => {
+      const featureId = getFeatureId(feature, options.promoteId);
+
+      if (featureId === undefined) {
+        logWarn('Skipping feature without id in updateFeatures', { sourceId });
+        return;
+      }
+
+      update.push(getFeatureDiff(featureId, feature));
+    });
+
+    if (!update.length) return;
+
+    updateData({ update });
+  }
+
+  /**
+   * Removes features from the source
+   * @param ids - Ids of the features to remove
+   */
+  function removeFeatures(ids: GeoJSONFeatureId[]): void {
+    if (!ids.length) return;
+
+    updateData({ remove: ids });
+  }
+
   /**
    * Removes the GeoJSON source with enhanced cleanup and error handling
    */
@@ -209,6 +334,95 @@ export function useCreateGeoJsonSource({
     initSource();
   }
 
+  /**
+   * Updates the clustering options of the source in place
+   * @param options - Clustering options to apply
+   */
+  function setClusterOptions(options: SetClusterOptions): void {
+    clusterOptions = { ...clusterOptions, ...omitUndefined(options) };
+
+    const map = mapInstance.value;
+
+    if (!map || !source.value || !hasSource(map, sourceId)) return;
+
+    try {
+      source.value.setClusterOptions(options);
+    } catch (error) {
+      logError('Error setting GeoJSON source cluster options:', error, {
+        sourceId,
+      });
+    }
+  }
+
+  /**
+   * Gets the zoom level at which the given cluster expands
+   * @param clusterId - Value of the cluster's `cluster_id` property
+   * @returns The expansion zoom, or null if it could not be resolved
+   */
+  async function getClusterExpansionZoom(
+    clusterId: number,
+  ): Promise<Nullable<number>> {
+    if (!source.value) return null;
+
+    try {
+      return await source.value.getClusterExpansionZoom(clusterId);
+    } catch (error) {
+      logError('Error getting cluster expansion zoom:', error, {
+        sourceId,
+        clusterId,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Gets the children of the given cluster on the next zoom level
+   * @param clusterId - Value of the cluster's `cluster_id` property
+   * @returns Child clusters and points, empty if they could not be resolved
+   */
+  async function getClusterChildren(
+    clusterId: number,
+  ): Promise<GeoJSON.Feature[]> {
+    if (!source.value) return [];
+
+    try {
+      return await source.value.getClusterChildren(clusterId);
+    } catch (error) {
+      logError('Error getting cluster children:', error, {
+        sourceId,
+        clusterId,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Gets one page of the original points belonging to the given cluster
+   * @param clusterId - Value of the cluster's `cluster_id` property
+   * @param limit - Maximum number of points to return (default: 10)
+   * @param offset - Number of points to skip, for paging (default: 0)
+   * @returns Points of the page, empty if they could not be resolved
+   */
+  async function getClusterLeaves(
+    clusterId: number,
+    limit = 10,
+    offset = 0,
+  ): Promise<GeoJSON.Feature[]> {
+    if (!source.value) return [];
+
+    try {
+      return await source.value.getClusterLeaves(clusterId, limit, offset);
+    } catch (error) {
+      logError('Error getting cluster leaves:', error, {
+        sourceId,
+        clusterId,
+        limit,
+        offset,
+      });
+      return [];
+    }
+  }
+
   onMounted(async () => {
     await nextTick();
     initSource();
@@ -222,8 +436,16 @@ export function useCreateGeoJsonSource({
     sourceId,
     getSource,
     setData,
+    updateData,
+    addFeatures,
+    updateFeatures,
+    removeFeatures,
     removeSource,
     refreshSource,
+    setClusterOptions,
+    getClusterExpansionZoom,
+    getClusterChildren,
+    getClusterLeaves,
     sourceStatus: sourceStatus.value as Readonly<SourceStatus>,
     isSourceReady: isSourceReady.value,
   };
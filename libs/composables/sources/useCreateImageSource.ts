@@ -0,0 +1,154 @@
+import { useCreateSource, useLogger } from '@libs/composables';
+import type { MaybeRef, ShallowRef } from 'vue';
+import type { SourceStatus } from '@libs/composables';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  Coordinates,
+  ImageSource,
+  ImageSourceSpecification,
+} from 'maplibre-gl';
+
+export interface CreateImageSourceActions {
+  sourceId: string;
+  getSource: ShallowRef<Nullable<ImageSource>>;
+  setUrl: (url: string) => void;
+  setCoordinates: (coordinates: Coordinates) => void;
+  updateImage: (url: string, coordinates?: Coordinates) => void;
+  removeSource: () => void;
+  refreshSource: () => void;
+  sourceStatus: Readonly<SourceStatus>;
+  isSourceReady: boolean;
+}
+
+interface CreateImageSourceProps {
+  map: MaybeRef<Nullable<Map>>;
+  id?: string;
+  url: string;
+  coordinates: Coordinates;
+  debug?: boolean;
+  register?: (actions: CreateImageSourceActions, map: Map) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Image Sources
+ * Provides a georeferenced image source with error handling and reload handling
+ *
+ * @param props - Configuration options for the image source
+ * @returns Enhanced actions and state for the image source
+ */
+export function useCreateImageSource({
+  map,
+  id,
+  url,
+  coordinates,
+  debug = false,
+  register,
+}: CreateImageSourceProps): CreateImageSourceActions {
+  const { logWarn, logError } = useLogger(debug);
+
+  if (!url || coordinates?.length !== 4) {
+    logWarn('Warning: Image source requires a `url` and four `coordinates`', {
+      id,
+    });
+  }
+
+  const {
+    sourceId,
+    getSource,
+    updateSpecification,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  } = useCreateSource<ImageSource, ImageSourceSpecification>({
+    map,
+    id,
+    specification: { type: 'image', url, coordinates },
+    debug,
+    register: (actions, mapInstance) => {
+      register?.(
+        {
+          sourceId: actions.sourceId,
+          getSource: actions.getSource,
+          setUrl,
+          setCoordinates,
+          updateImage,
+          removeSource: actions.removeSource,
+          refreshSource: actions.refreshSource,
+          sourceStatus: actions.sourceStatus,
+          isSourceReady: actions.isSourceReady,
+        },
+        mapInstance,
+      );
+    },
+  });
+
+  /**
+   * Replaces the image and optionally its corner coordinates with error handling
+   * @param newUrl - URL of the new image
+   * @param newCoordinates - Corner coordinates, top left first and clockwise
+   */
+  function updateImage(newUrl: string, newCoordinates?: Coordinates): void {
+    if (!newUrl) return;
+
+    updateSpecification({
+      url: newUrl,
+      ...(newCoordinates && { coordinates: newCoordinates }),
+    });
+
+    if (!getSource.value) return;
+
+    try {
+      getSource.value.updateImage({
+        url: newUrl,
+        coordinates: newCoordinates,
+      });
+    } catch (error) {
+      logError('Error updating image source image:', error, { sourceId });
+    }
+  }
+
+  /**
+   * Sets the image URL of the image source
+   * @param newUrl - URL of the new image
+   */
+  function setUrl(newUrl: string): void {
+    updateImage(newUrl);
+  }
+
+  /**
+   * Sets the corner coordinates of the image source with error handling
+   * @param newCoordinates - Corner coordinates, top left first and clockwise
+   */
+  function setCoordinates(newCoordinates: Coordinates): void {
+    if (newCoordinates?.length !== 4) {
+      logWarn('Warning: Image source requires four coordinates', {
+        coordinates: newCoordinates,
+      });
+      return;
+    }
+
+    updateSpecification({ coordinates: newCoordinates });
+
+    if (!getSource.value) return;
+
+    try {
+      getSource.value.setCoordinates(newCoordinates);
+    } catch (error) {
+      logError('Error setting image source coordinates:', error, { sourceId });
+    }
+  }
+
+  return {
+    sourceId,
+    getSource,
+    setUrl,
+    setCoordinates,
+    updateImage,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  };
+}
@@ -0,0 +1,287 @@
+import {
+  unref,
+  shallowRef,
+  computed,
+  onUnmounted,
+  onMounted,
+  nextTick,
+  ref,
+} from 'vue';
+import { getMainVersion, getNanoid, hasSource } from '@libs/helpers';
+import { useMapReloadEvent, useLogger, SourceStatus } from '@libs/composables';
+import type { MaybeRef, ShallowRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  LayerSpecification,
+  MapSourceDataEvent,
+  Source,
+  SourceSpecification,
+  CanvasSourceSpecification,
+} from 'maplibre-gl';
+
+/**
+ * Any specification accepted by `Map.addSource`
+ */
+type AnySourceSpecification = SourceSpecification | CanvasSourceSpecification;
+
+export interface CreateBaseSourceProps<Spec extends AnySourceSpecification> {
+  map: MaybeRef<Nullable<Map>>;
+  id?: string;
+  specification: Spec;
+  debug?: boolean;
+  register?: (actions: CreateBaseSourceActions<any, Spec>, map: Map) => void;
+}
+
+export interface CreateBaseSourceActions<
+  S extends Source,
+  Spec extends AnySourceSpecification,
+> {
+  sourceId: string;
+  getSource: ShallowRef<Nullable<S>>;
+  getSpecification: () => Spec;
+  updateSpecification: (updates: Partial<Spec>) => void;
+  removeSource: () => void;
+  refreshSource: () => void;
+  sourceStatus: Readonly<SourceStatus>;
+  isSourceReady: boolean;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Sources
+ * Shared lifecycle for the tile, image and video based sources: adds the source,
+ * resolves the source instance and re-adds it after style reloads
+ *
+ * @param props - Configuration options for the source
+ * @returns Enhanced actions and state for the source
+ */
+export function useCreateSource<
+  S extends Source,
+  Spec extends AnySourceSpecification,
+>({
+  map: mapRef,
+  id,
+  specification,
+  debug = false,
+  register,
+}: CreateBaseSourceProps<Spec>): CreateBaseSourceActions<S, Spec> {
+  const { logError, logWarn } = useLogger(debug);
+  const sourceId = getNanoid(id);
+  const source = shallowRef<Nullable<S>>(null);
+  const sourceSpec = shallowRef<Spec>(specification);
+  const sourceStatus = ref<SourceStatus>(SourceStatus.NotCreated);
+
+  // Computed properties for better reactivity and performance
+  const getSource = computed(() => source.value);
+  const mapInstance = computed(() => unref(mapRef));
+  const isSourceReady = computed(
+    () =>
+      sourceStatus.value === SourceStatus.Created &&
+      !!source.value &&
+      !!mapInstance.value &&
+      hasSource(mapInstance.value, sourceId),
+  );
+
+  useMapReloadEvent({
+    map: mapRef,
+    callbacks: {
+      onUnload: removeSource,
+      onLoad: initSource,
+    },
+    debug,
+  });
+
+  /**
+   * Handles source data events with enhanced error handling
+   * @param e - Map source data event
+   */
+  function sourcedataEventFn(e: MapSourceDataEvent): void {
+    try {
+      const map = mapInstance.value;
+      if (!map) return;
+
+      let isSourceLoaded = e.isSourceLoaded;
+      if (getMainVersion() > 0) isSourceLoaded = true;
+
+      if (!source.value && e.sourceId === sourceId && isSourceLoaded) {
+        source.value = map.getSource(sourceId) as unknown as S;
+        sourceStatus.value = SourceStatus.Created;
+
+        register?.(
+          {
+            sourceId,
+            getSource,
+            getSpecification,
+            updateSpecification,
+            removeSource,
+            refreshSource,
+            sourceStatus: sourceStatus.value as Readonly<SourceStatus>,
+            isSourceReady: isSourceReady.value,
+          },
+          map,
+        );
+        map.off('sourcedata', sourcedataEventFn);
+      }
+    } catch (error) {
+      sourceStatus.value = SourceStatus.Error;
+      logError('Error in source data event handler:', error);
+    }
+  }
+
+  /**
+   * Initializes the source with enhanced error handling
+   */
+  function initSource(): void {
+    const map = mapInstance.value;
+
+    if (!map) return;
+
+    if (source.value || hasSource(map, sourceId)) return;
+
+    sourceStatus.value = SourceStatus.Creating;
+
+    try {
+      map.addSource(sourceId, sourceSpec.value);
+      map.on('sourcedata', sourcedataEventFn);
+    } catch (error) {
+      sourceStatus.value = SourceStatus.Error;
+      logError('Error creating source:', error, {
+        sourceId,
+        type: sourceSpec.value.type,
+      });
+    }
+  }
+
+  /**
+   * Gets the specification the source is (re)created from
+   * @returns Current source specification
+   */
+  function getSpecification(): Spec {
+    return sourceSpec.value;
+  }
+
+  /**
+   * Merges updates into the stored specification so they survive style reloads
+   * Keys updated to `undefined` are dropped from the specification
+   * @param updates - Partial specification to merge
+   */
+  function updateSpecification(updates: Partial<Spec>): void {
+    sourceSpec.value = Object.fromEntries(
+      Object.entries({ ...sourceSpec.value, ...updates }).filter(
+        ([, value]) => value !== undefined,
+      ),
+    ) as Spec;
+  }
+
+  /**
+   * Removes the source with enhanced cleanup and error handling
+   * The state is kept when MapLibre declines the removal, which it does without
+   * throwing while layers still use the source
+   */
+  function removeSource(): void {
+    const map = mapInstance.value;
+
+    if (!map) return;
+
+    try {
+      if (hasSource(map, sourceId)) map.removeSource(sourceId);
+    } catch (error) {
+      logError('Error removing source:', error, { sourceId });
+    }
+
+    if (hasSource(map, sourceId)) {
+      logWarn('Warning: Source is still used by layers and was not removed', {
+        sourceId,
+      });
+      return;
+    }
+
+    map.off('sourcedata', sourcedataEventFn);
+    source.value = null;
+    sourceStatus.value = SourceStatus.NotCreated;
+  }
+
+  /**
+   * Removes the layers using the source, keeping what is needed to add them back
+   * @param map - Map instance
+   * @returns Removed layers with the id of the layer they were placed before
+   */
+  function detachLayers(
+    map: Map,
+  ): { layer: LayerSpecification; beforeId?: string }[] {
+    const layers = map.getStyle()?.layers ?? [];
+    const usesSource = (layer: LayerSpecification): boolean =>
+      'source' in layer && layer.source === sourceId;
+
+    const detached = layers
+      .map((layer, index) => ({
+        layer,
+        // Next layer staying in the style, so the original order is restored
+        beforeId: layers.slice(index + 1).find((next) => !usesSource(next))?.id,
+      }))
+      .filter(({ layer }) => usesSource(layer));
+
+    return detached.filter(({ layer }) => {
+      try {
+        map.removeLayer(layer.id);
+        return true;
+      } catch (error) {
+        logError('Error detaching source layer:', error, {
+          sourceId,
+          layerId: layer.id,
+        });
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Refreshes the source by removing and recreating it
+   * Layers using the source are removed around the swap and added back
+   */
+  function refreshSource(): void {
+    const map = mapInstance.value;
+
+    if (!map || !hasSource(map, sourceId)) {
+      removeSource();
+      initSource();
+      return;
+    }
+
+    const detached = detachLayers(map);
+
+    removeSource();
+    initSource();
+
+    detached.forEach(({ layer, beforeId }) => {
+      try {
+        map.addLayer(layer, beforeId);
+      } catch (error) {
+        logError('Error restoring source layer:', error, {
+          sourceId,
+          layerId: layer.id,
+        });
+      }
+    });
+  }
+
+  onMounted(async () => {
+    await nextTick();
+    initSource();
+  });
+
+  onUnmounted(() => {
+    removeSource();
+  });
+
+  return {
+    sourceId,
+    getSource,
+    getSpecification,
+    updateSpecification,
+    removeSource,
+    refreshSource,
+    sourceStatus: sourceStatus.value as Readonly<SourceStatus>,
+    isSourceReady: isSourceReady.value,
+  };
+}
@@ -0,0 +1,135 @@
+import { useCreateSource, useLogger } from '@libs/composables';
+import type { MaybeRef, ShallowRef } from 'vue';
+import type { SourceStatus } from '@libs/composables';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  VectorTileSource,
+  VectorSourceSpecification,
+} from 'maplibre-gl';
+
+export interface CreateVectorSourceActions {
+  sourceId: string;
+  getSource: ShallowRef<Nullable<VectorTileSource>>;
+  setTiles: (tiles: string[]) => void;
+  setUrl: (url: string) => void;
+  removeSource: () => void;
+  refreshSource: () => void;
+  sourceStatus: Readonly<SourceStatus>;
+  isSourceReady: boolean;
+}
+
+interface CreateVectorSourceProps {
+  map: MaybeRef<Nullable<Map>>;
+  id?: string;
+  tiles?: string[];
+  url?: string;
+  options?: Partial<VectorSourceSpecification>;
+  debug?: boolean;
+  register?: (actions: CreateVectorSourceActions, map: Map) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Vector Tile Sources
+ * Provides reactive vector source with error handling and reload handling
+ *
+ * @param props - Configuration options for the vector source
+ * @returns Enhanced actions and state for the vector source
+ */
+export function useCreateVectorSource({
+  map,
+  id,
+  tiles,
+  url,
+  options = {},
+  debug = false,
+  register,
+}: CreateVectorSourceProps): CreateVectorSourceActions {
+  const { logWarn, logError } = useLogger(debug);
+
+  if (!tiles?.length && !url && !options.tiles && !options.url) {
+    logWarn('Warning: Vector source requires either `tiles` or `url`', { id });
+  }
+
+  const {
+    sourceId,
+    getSource,
+    updateSpecification,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  } = useCreateSource<VectorTileSource, VectorSourceSpecification>({
+    map,
+    id,
+    specification: {
+      ...options,
+      ...(tiles && { tiles }),
+      ...(url && { url }),
+      type: 'vector',
+    },
+    debug,
+    register: (actions, mapInstance) => {
+      register?.(
+        {
+          sourceId: actions.sourceId,
+          getSource: actions.getSource,
+          setTiles,
+          setUrl,
+          removeSource: actions.removeSource,
+          refreshSource: actions.refreshSource,
+          sourceStatus: actions.sourceStatus,
+          isSourceReady: actions.isSourceReady,
+        },
+        mapInstance,
+      );
+    },
+  });
+
+  /**
+   * Sets the tile URLs of the vector source with error handling
+   * @param newTiles - Array of tile URL templates
+   */
+  function setTiles(newTiles: string[]): void {
+    if (!newTiles?.length) return;
+
+    updateSpecification({ tiles: newTiles, url: undefined });
+
+    if (!getSource.value) return;
+
+    try {
+      getSource.value.setTiles(newTiles);
+    } catch (error) {
+      logError('Error setting vector source tiles:', error, { sourceId });
+    }
+  }
+
+  /**
+   * Sets the TileJSON URL of the vector source with error handling
+   * @param newUrl - URL to a TileJSON resource
+   */
+  function setUrl(newUrl: string): void {
+    if (!newUrl) return;
+
+    updateSpecification({ url: newUrl, tiles: undefined });
+
+    if (!getSource.value) return;
+
+    try {
+      getSource.value.setUrl(newUrl);
+    } catch (error) {
+      logError('Error setting vector source url:', error, { sourceId });
+    }
+  }
+
+  return {
+    sourceId,
+    getSource,
+    setTiles,
+    setUrl,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  };
+}
@@ -0,0 +1,190 @@
+import { useCreateSource, useLogger } from '@libs/composables';
+import type { MaybeRef, ShallowRef } from 'vue';
+import type { SourceStatus } from '@libs/composables';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  Coordinates,
+  VideoSource,
+  VideoSourceSpecification,
+} from 'maplibre-gl';
+
+export interface CreateVideoSourceActions {
+  sourceId: string;
+  getSource: ShallowRef<Nullable<VideoSource>>;
+  getVideo: () => Nullable<HTMLVideoElement>;
+  setUrls: (urls: string[]) => void;
+  setCoordinates: (coordinates: Coordinates) => void;
+  play: () => void;
+  pause: () => void;
+  seek: (seconds: number) => void;
+  removeSource: () => void;
+  refreshSource: () => void;
+  sourceStatus: Readonly<SourceStatus>;
+  isSourceReady: boolean;
+}
+
+interface CreateVideoSourceProps {
+  map: MaybeRef<Nullable<Map>>;
+  id?: string;
+  urls: string[];
+  coordinates: Coordinates;
+  debug?: boolean;
+  register?: (actions: CreateVideoSourceActions, map: Map) => void;
+}
+
+/**
+ * Composable for creating and managing MapLibre GL Video Sources
+ * Provides a georeferenced video source with playback controls, error handling and reload handling
+ *
+ * @param props - Configuration options for the video source
+ * @returns Enhanced actions and state for the video source
+ */
+export function useCreateVideoSource({
+  map,
+  id,
+  urls,
+  coordinates,
+  debug = false,
+  register,
+}: CreateVideoSourceProps): CreateVideoSourceActions {
+  const { logWarn, logError } = useLogger(debug);
+
+  if (!urls?.length || coordinates?.length !== 4) {
+    logWarn('Warning: Video source requires `urls` and four `coordinates`', {
+      id,
+    });
+  }
+
+  const {
+    sourceId,
+    getSource,
+    updateSpecification,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  } = useCreateSource<VideoSource, VideoSourceSpecification>({
+    map,
+    id,
+    specification: { type: 'video', urls, coordinates },
+    debug,
+    register: (actions, mapInstance) => {
+      register?.(
+        {
+          sourceId: actions.sourceId,
+          getSource: actions.getSource,
+          getVideo,
+          setUrls,
+          setCoordinates,
+          play,
+          pause,
+          seek,
+          removeSource: actions.removeSource,
+          refreshSource: actions.refreshSource,
+          sourceStatus: actions.sourceStatus,
+          isSourceReady: actions.isSourceReady,
+        },
+        mapInstance,
+      );
+    },
+  });
+
+  /**
+   * Gets the HTML video element backing the source
+   * @returns Video element or null if the source is not loaded
+   */
+  function getVideo(): Nullable<HTMLVideoElement> {
+    return getSource.value?.getVideo() ?? null;
+  }
+
+  /**
+   * Sets the video URLs, recreating the source since MapLibre cannot swap them in place
+   * @param newUrls - Video URLs in order of format preference
+   */
+  function setUrls(newUrls: string[]): void {
+    if (!newUrls?.length) return;
+
+    updateSpecification({ urls: newUrls });
+
+    if (getSource.value) refreshSource();
+  }
+
+  /**
+   * Sets the corner coordinates of the video source with error handling
+   * @param newCoordinates - Corner coordinates, top left first and clockwise
+   */
+  function setCoordinates(newCoordinates: Coordinates): void {
+    if (newCoordinates?.length !== 4) {
+      logWarn('Warning: Video source requires four coordinates', {
+        coordinates: newCoordinates,
+      });
+      return;
+    }
+
+    updateSpecification({ coordinates: newCoordinates });
+
+    if (!getSource.value) return;
+
+    try {
+      getSource.value.setCoordinates(newCoordinates);
+    } catch (error) {
+      logError('Error setting video source coordinates:', error, { sourceId });
+    }
+  }
+
+  /**
+   * Starts video playback with error handling
+   */
+  function play(): void {
+    try {
+      getSource.value?.play();
+    } catch (error) {
+      logError('Error playing video source:', error, { sourceId });
+    }
+  }
+
+  /**
+   * Pauses video playback with error handling
+   */
+  function pause(): void {
+    try {
+      getSource.value?.pause();
+    } catch (error) {
+      logError('Error pausing video source:', error, { sourceId });
+    }
+  }
+
+  /**
+   * Seeks the video to the given time with error handling
+   * @param seconds - Playback position in seconds
+   */
+  function seek(seconds: number): void {
+    if (seconds < 0) {
+      logWarn('Warning: Video seek position should not be negative', {
+        seconds,
+      });
+    }
+
+    try {
+      getSource.value?.seek(seconds);
+    } catch (error) {
+      logError('Error seeking video source:', error, { sourceId, seconds });
+    }
+  }
+
+  return {
+    sourceId,
+    getSource,
+    getVideo,
+    setUrls,
+    setCoordinates,
+    play,
+    pause,
+    seek,
+    removeSource,
+    refreshSource,
+    sourceStatus,
+    isSourceReady,
+  };
+}
@@ -1,8 +1,12 @@
 export * from './useBounds';
+export * from './useCameraRouteSync';
+export * from './useCameraTour';
+export * from './useClusterZoom';
 export * from './useDebounce';
 export * from './useEaseTo';
 export * from './useFitScreenCoordinates';
 export * from './useFlyTo';
+export * from './useFollowCamera';
 export * from './useJumpTo';
 export * from './useLogger';
 export * from './useOptimizedComputed';
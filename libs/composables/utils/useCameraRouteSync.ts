@@ -0,0 +1,346 @@
+import { computed, unref, watch, onMounted, onUnmounted } from 'vue';
+import { useDebounce, useLogger, useMapEventListener } from '@libs/composables';
+import type { MaybeRef, Ref } from 'vue';
+import type { Nullable } from '@libs/types';
+import type { Map, MapOptions } from 'maplibre-gl';
+
+/**
+ * Router the camera is written with, such as a vue-router Router
+ */
+export interface CameraRouteRouter {
+  currentRoute: Ref<{ query: Record<string, unknown> }>;
+  replace(to: { query: Record<string, any> }): unknown;
+}
+
+/**
+ * Camera and layer visibility stored in the URL
+ */
+interface CameraRouteState {
+  center: [number, number];
+  zoom: number;
+  bearing: number;
+  pitch: number;
+  /** Visible tracked layers, null when the URL has no layer list */
+  layers: Nullable<string[]>;
+}
+
+interface CameraRouteSyncProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Router holding the query, the page URL is updated with `history.replaceState` otherwise */
+  router?: CameraRouteRouter;
+  /** Query parameter holding the camera (default: 'map') */
+  param?: string;
+  /** Layers whose visibility is stored in the URL */
+  layers?: string[];
+  /** Delay before the URL is updated in milliseconds (default: 500) */
+  delay?: number;
+  debug?: boolean;
+}
+
+interface CameraRouteSyncActions {
+  /** Camera read from the URL, to merge into the map options */
+  initialOptions: Partial<
+    Pick<MapOptions, 'center' | 'zoom' | 'bearing' | 'pitch'>
+  >;
+  writeUrl: () => void;
+  restore: () => void;
+}
+
+/**
+ * Reads `zoom/lat/lng/bearing/pitch[/layers]`, the order of MapLibre's `hash` option
+ */
+function parseCameraState(value: string): Nullable<CameraRouteState> {
+  const parts = value.split('/');
+  const [zoom, lat, lng, bearing = 0, pitch = 0] = parts
+    .slice(0, 5)
+    .map(Number);
+
+  if (![zoom, lat, lng, bearing, pitch].every(Number.isFinite)) return null;
+
+  let layers: Nullable<string[]> = null;
+
+  if (parts.length > 5) {
+    layers = parts[5] ? parts[5].split(',').map(decodeURIComponent) : [];
+  }
+
+  return { center: [lng, lat], zoom, bearing, pitch, layers };
+}
+
+function getCameraOptions({
+  center,
+  zoom,
+  bearing,
+  pitch,
+}: CameraRouteState): CameraRouteSyncActions['initialOptions'] {
+  return { center, zoom, bearing, pitch };
+}
+
+/**
+ * Writes the camera with the precision of MapLibre's `hash` option
+ */
+function serializeCameraState(
+  map: Map,
+  visibleLayers: Nullable<string[]>,
+): string {
+  const zoom = map.getZoom();
+  const { lng, lat } = map.getCenter();
+  const precision = Math.ceil(
+    (zoom * Math.LN2 + Math.log(512 / 360 / 0.5)) / Math.LN10,
+  );
+  const factor = Math.pow(10, precision);
+  const parts: (string | number)[] = [
+    Math.round(zoom * 100) / 100,
+    Math.round(lat * factor) / factor,
+    Math.round(lng * factor) / factor,
+    Math.round(map.getBearing() * 10) / 10,
+    Math.round(map.getPitch()),
+  ];
+
+  if (visibleLayers) {
+    parts.push(visibleLayers.map(encodeURIComponent).join(','));
+  }
+
+  return parts.join('/');
+}
+
+/**
+ * Composable for keeping the camera in a URL query parameter
+ * Unlike MapLibre's `hash` option it leaves `location.hash` to the router:
+ * the camera and the visibility of the given layers are written to one query
+ * parameter, debounced and with `replace` so history is not filled, and are
+ * restored from the URL when the map is created and on navigation
+ *
+ * @param props - Configuration options for the URL sync
+ * @returns The camera read from the URL and actions to write or restore it
+ */
+export function useCameraRouteSync({
+  map,
+  router,
+  param = 'map',
+  layers,
+  delay = 500,
+  debug = false,
+}: CameraRouteSyncProps): CameraRouteSyncActions {
+  const { logError } = useLogger(debug);
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+
+  /**
+   * Current value of the query parameter
+   */
+  function readParam(): Nullable<string> {
+    // No page URL during server-side rendering
+    if (!router && typeof window === 'undefined') return null;
+
+    try {
+      const value = router
+        ? router.currentRoute.value.query[param]
+        : new URLSearchParams(window.location.search).get(param);
+
+      return typeof value === 'string' ? value : null;
+    } catch (error) {
+      logError('Error reading camera from URL:', error, { param });
+      return null;
+    }
+  }
+
+  /**
+   * Parses a query value, ignoring malformed values
+   */
+  function readState(value: Nullable<string>): Nullable<CameraRouteState> {
+    if (!value) return null;
+
+    try {
+      return parseCameraState(value);
+    } catch (error) {
+      logError('Error parsing camera from URL:', error, { value });
+      return null;
+    }
+  }
+
+  let lastWritten = readParam();
+  const initialState = readState(lastWritten);
+  // Visibility of the tracked layers, layers not added yet keep the URL value
+  const layerVisibility: Record<string, boolean> = {};
+  // Tracked layers whose URL visibility is not applied yet
+  const pendingLayers = new Set<string>();
+
+  /**
+   * Stores the layer visibility of a state, applied once the layers exist
+   */
+  function setPendingLayers(state: CameraRouteState): void {
+    if (!layers || !state.layers) return;
+
+    layers.forEach((id) => {
+      layerVisibility[id] = state.layers!.includes(id);
+      pendingLayers.add(id);
+    });
+  }
+
+  /**
+   * Applies the URL visibility to the tracked layers added meanwhile
+   */
+  function applyPendingLayers(mapRef: Map): void {
+    pendingLayers.forEach((id) => {
+      if (!mapRef.getLayer(id)) return;
+
+      try {
+        mapRef.setLayoutProperty(
+          id,
+          'visibility',
+          layerVisibility[id] ? 'visible' : 'none',
+        );
+      } catch (error) {
+        logError('Error restoring layer visibility:', error, { layerId: id });
+      }
+
+      pendingLayers.delete(id);
+    });
+  }
+
+  /**
+   * Visible tracked layers, read from the map when the layer exists
+   */
+  function getVisibleLayers(mapRef: Map): Nullable<string[]> {
+    if (!layers) return null;
+
+    return layers.filter((id) => {
+      if (mapRef.getLayer(id) && !pendingLayers.has(id)) {
+        layerVisibility[id] =
+          mapRef.getLayoutProperty(id, 'visibility') !== 'none';
+      }
+
+      return layerVisibility[id] ?? false;
+    });
+  }
+
+  /**
+   * Writes the current camera to the URL right away
+   */
+  function writeUrl(): void {
+    const mapRef = mapInstance.value;
+
+    if (!mapRef) return;
+
+    try {
+      const value = serializeCameraState(mapRef, getVisibleLayers(mapRef));
+
+      if (value === lastWritten) return;
+
+      lastWritten = value;
+
+      if (router) {
+        const query = { ...router.currentRoute.value.query, [param]: value };
+
+        Promise.resolve(router.replace({ query })).catch((error) =>
+          logError('Error writing camera to route:', error),
+        );
+      } else if (typeof window !== 'undefined') {
+        const url = new URL(window.location.href);
+        url.searchParams.set(param, value);
+        window.history.replaceState(window.history.state, '', url);
+      }
+    } catch (error) {
+      logError('Error writing camera to URL:', error, { param });
+    }
+  }
+
+  /**
+   * Moves the map to the camera of the URL
+   */
+  function restore(): void {
+    const mapRef = mapInstance.value;
+    const value = readParam();
+    const state = readState(value);
+
+    if (!mapRef || !state) return;
+
+    try {
+      lastWritten = value;
+      setPendingLayers(state);
+      mapRef.jumpTo(getCameraOptions(state));
+      applyPendingLayers(mapRef);
+    } catch (error) {
+      logError('Error restoring camera from URL:', error, { value });
+    }
+  }
+
+  const scheduleWrite = useDebounce(writeUrl, { delay, debug });
+
+  if (initialState) setPendingLayers(initialState);
+
+  useMapEventListener({
+    map,
+    event: 'moveend',
+    on: () => scheduleWrite(),
+    debug,
+  });
+
+  // Layers are added and toggled with style updates
+  useMapEventListener({
+    map,
+    event: 'styledata',
+    on: () => {
+      const mapRef = mapInstance.value;
+
+      if (!mapRef || !layers) return;
+
+      applyPendingLayers(mapRef);
+      scheduleWrite();
+    },
+    debug,
+  });
+
+  /**
+   * Restores the camera when navigation changes the parameter
+   */
+  function onNavigation(): void {
+    if (readParam() === lastWritten) return;
+
+    scheduleWrite.cancel();
+    restore();
+  }
+
+  const stopWatchers = [
+    // A map created without the initial options still starts from the URL
+    watch(
+      mapInstance,
+      (mapRef) => {
+        if (mapRef && initialState) restore();
+      },
+      { immediate: true },
+    ),
+  ];
+
+  let hasPopstateListener = false;
+
+  if (router) {
+    stopWatchers.push(
+      watch(() => router.currentRoute.value.query[param], onNavigation),
+    );
+  }
+
+  // Mounted hooks only run in the browser
+  onMounted(() => {
+    if (router || typeof window === 'undefined') return;
+
+    window.addEventListener('popstate', onNavigation);
+    hasPopstateListener = true;
+  });
+
+  onUnmounted(() => {
+    stopWatchers.forEach((stopWatcher) => stopWatcher());
+
+    if (hasPopstateListener) {
+      window.removeEventListener('popstate', onNavigation);
+      hasPopstateListener = false;
+    }
+  });
+
+  return {
+    initialOptions: initialState ? getCameraOptions(initialState) : {},
+    writeUrl,
+    restore,
+  };
+}
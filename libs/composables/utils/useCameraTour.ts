@@ -0,0 +1,429 @@
+import { computed, ref, unref, watch, onUnmounted } from 'vue';
+import {
+  EaseStatus,
+  FlyStatus,
+  useEaseTo,
+  useFlyTo,
+  useLogger,
+  useMapEventListener,
+} from '@libs/composables';
+import type { MaybeRef, Ref } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  CameraOptions,
+  FlyToOptions,
+  MapLibreEvent,
+} from 'maplibre-gl';
+
+/**
+ * Camera tour playback status enum for better state management
+ */
+export enum CameraTourStatus {
+  Idle = 'idle',
+  Playing = 'playing',
+  Paused = 'paused',
+  Completed = 'completed',
+  Cancelled = 'cancelled',
+}
+
+/**
+ * Step of a camera tour
+ */
+export interface CameraTourKeyframe {
+  /** Camera reached at the end of the move */
+  camera: CameraOptions;
+  /** Move with flyTo, easeTo or jumpTo (default: 'fly') */
+  transition?: 'fly' | 'ease' | 'jump';
+  /** Move duration in milliseconds (default: 2000) */
+  duration?: number;
+  /** Easing function of the move */
+  easing?: (t: number) => number;
+  /** Time spent on the keyframe after the move in milliseconds */
+  hold?: number;
+  /** Additional move options such as `curve` or `padding` */
+  options?: Omit<FlyToOptions, keyof CameraOptions | 'duration' | 'easing'>;
+  /** Called when the move to the keyframe starts */
+  onStart?: (step: number) => void;
+  /** Called when the camera reaches the keyframe */
+  onArrive?: (step: number) => void;
+}
+
+interface CameraTourProps {
+  map: MaybeRef<Nullable<Map>>;
+  keyframes: MaybeRef<CameraTourKeyframe[]>;
+  /** Start over after the last keyframe (default: false) */
+  loop?: boolean;
+  /** Cancel the tour when the user moves the map (default: true) */
+  cancelOnInteraction?: boolean;
+  /** Called when the last keyframe is done */
+  onComplete?: () => void;
+  debug?: boolean;
+}
+
+interface CameraTourActions {
+  status: Ref<CameraTourStatus>;
+  moveStatus: Ref<Nullable<FlyStatus | EaseStatus>>;
+  currentStep: Ref<number>;
+  progress: Ref<number>;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  seek: (step: number) => void;
+}
+
+const DEFAULT_DURATION = 2000;
+
+function getMoveDuration(keyframe: CameraTourKeyframe): number {
+  if (keyframe.transition === 'jump') return 0;
+  return keyframe.duration ?? DEFAULT_DURATION;
+}
+
+/**
+ * Composable for playing a sequence of camera moves
+ * Each keyframe is reached with flyTo, easeTo or jumpTo and held for a while.
+ * Pausing stops the current move and resuming continues it with the remaining
+ * duration; seeking jumps to a keyframe. A user interaction moving the map
+ * cancels the tour
+ *
+ * @param props - Configuration options for the tour
+ * @returns Reactive playback state and actions to control the tour
+ */
+export function useCameraTour({
+  map,
+  keyframes,
+  loop = false,
+  cancelOnInteraction = true,
+  onComplete,
+  debug = false,
+}: CameraTourProps): CameraTourActions {
+  const { logError } = useLogger(debug);
+  const { flyTo } = useFlyTo({ map, debug });
+  const { easeTo } = useEaseTo({ map, debug });
+  const status = ref<CameraTourStatus>(CameraTourStatus.Idle);
+  const moveStatus = ref<Nullable<FlyStatus | EaseStatus>>(null);
+  const currentStep = ref(0);
+  const progress = ref(0);
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const keyframeList = computed(() => unref(keyframes));
+  const timeline = computed(() => {
+    let total = 0;
+    const starts = keyframeList.value.map((keyframe) => {
+      const start = total;
+      total += getMoveDuration(keyframe) + (keyframe.hold ?? 0);
+      return start;
+    });
+
+    return { starts, total };
+  });
+
+  // Incremented to invalidate the moves and timers of a previous run
+  let runId = 0;
+  let phase: 'move' | 'hold' = 'move';
+  let phaseStart = 0;
+  // Time spent in the current phase before the last pause
+  let phaseElapsed = 0;
+  let holdTimer: Nullable<ReturnType<typeof setTimeout>> = null;
+  let frameId: Nullable<number> = null;
+
+  /**
+   * Updates the progress of the whole tour
+   */
+  function updateProgress(): void {
+    const keyframe = keyframeList.value[currentStep.value];
+    const { starts, total } = timeline.value;
+
+    if (!keyframe || !total) return;
+
+    const duration = getMoveDuration(keyframe);
+    const elapsed =
+      phaseElapsed +
+      (status.value === CameraTourStatus.Playing
+        ? performance.now() - phaseStart
+        : 0);
+    const stepElapsed =
+      phase === 'move'
+        ? Math.min(elapsed, duration)
+        : duration + Math.min(elapsed, keyframe.hold ?? 0);
+
+    progress.value = Math.min(
+      1,
+      (starts[currentStep.value] + stepElapsed) / total,
+    );
+  }
+
+  function startFrameLoop(): void {
+    if (frameId !== null) return;
+
+    const onFrame = () => {
+      updateProgress();
+      frameId =
+        status.value === CameraTourStatus.Playing
+          ? requestAnimationFrame(onFrame)
+          : null;
+    };
+
+    frameId = requestAnimationFrame(onFrame);
+  }
+
+  /**
+   * Invalidates the running moves and timers
+   * @param stopMove - Stop the camera if it is moving to a keyframe
+   */
+  function interrupt(stopMove: boolean): void {
+    runId++;
+
+    if (holdTimer !== null) clearTimeout(holdTimer);
+    holdTimer = null;
+
+    if (frameId !== null) cancelAnimationFrame(frameId);
+    frameId = null;
+
+    if (stopMove && phase === 'move' && mapInstance.value?.isMoving()) {
+      mapInstance.value.stop();
+    }
+  }
+
+  /**
+   * Cancels the tour, playing again moves to the current keyframe again
+   */
+  function cancel(): void {
+    interrupt(false);
+    status.value = CameraTourStatus.Cancelled;
+    phase = 'move';
+    phaseElapsed = 0;
+  }
+
+  /**
+   * Moves to the keyframe of the current step
+   * @param id - Run the move belongs to
+   */
+  async function startMove(id: number): Promise<void> {
+    const mapRef = mapInstance.value;
+    const step = currentStep.value;
+    const keyframe = keyframeList.value[step];
+
+    if (!mapRef || !keyframe) return;
+
+    if (!phaseElapsed) keyframe.onStart?.(step);
+
+    phase = 'move';
+    phaseStart = performance.now();
+
+    const duration = Math.max(0, getMoveDuration(keyframe) - phaseElapsed);
+
+    try {
+      if (keyframe.transition === 'jump' || !duration) {
+        mapRef.jumpTo(keyframe.camera);
+      } else {
+        const isFlying = keyframe.transition !== 'ease';
+        const options = {
+          ...keyframe.options,
+          ...keyframe.camera,
+          duration,
+          easing: keyframe.easing,
+        };
+
+        moveStatus.value = isFlying ? FlyStatus.Flying : EaseStatus.Easing;
+        await (isFlying ? flyTo(options) : easeTo(options));
+
+        if (id !== runId) return;
+
+        moveStatus.value = isFlying
+          ? FlyStatus.Completed
+          : EaseStatus.Completed;
+      }
+    } catch (error) {
+      if (id !== runId) return;
+
+      moveStatus.value =
+        keyframe.transition === 'ease' ? EaseStatus.Error : FlyStatus.Error;
+      logError('Error moving to camera tour keyframe:', error, { step });
+      cancel();
+      return;
+    }
+
+    keyframe.onArrive?.(step);
+    phase = 'hold';
+    phaseElapsed = 0;
+    startHold(id);
+  }
+
+  /**
+   * Holds the current keyframe, then moves on to the next one
+   * @param id - Run the hold belongs to
+   */
+  function startHold(id: number): void {
+    const keyframe = keyframeList.value[currentStep.value];
+
+    if (!keyframe) return;
+
+    phaseStart = performance.now();
+    holdTimer = setTimeout(
+      () => {
+        holdTimer = null;
+
+        if (id === runId) nextStep(id);
+      },
+      Math.max(0, (keyframe.hold ?? 0) - phaseElapsed),
+    );
+  }
+
+  /**
+   * Continues with the next keyframe or completes the tour
+   * @param id - Run the step belongs to
+   */
+  function nextStep(id: number): void {
+    let step = currentStep.value + 1;
+
+    if (step >= keyframeList.value.length) {
+      if (!loop) {
+        interrupt(false);
+        progress.value = 1;
+        status.value = CameraTourStatus.Completed;
+        onComplete?.();
+        return;
+      }
+
+      step = 0;
+    }
+
+    currentStep.value = step;
+    phase = 'move';
+    phaseElapsed = 0;
+    startMove(id);
+  }
+
+  /**
+   * Plays the tour, resuming a paused or cancelled tour at its current step
+   */
+  function play(): void {
+    if (
+      status.value === CameraTourStatus.Playing ||
+      !keyframeList.value.length ||
+      !mapInstance.value
+    ) {
+      return;
+    }
+
+    if (
+      status.value === CameraTourStatus.Idle ||
+      status.value === CameraTourStatus.Completed
+    ) {
+      currentStep.value = 0;
+      phase = 'move';
+      phaseElapsed = 0;
+      progress.value = 0;
+    }
+
+    interrupt(false);
+    status.value = CameraTourStatus.Playing;
+    startFrameLoop();
+
+    const id = runId;
+    if (phase === 'move') {
+      startMove(id);
+    } else {
+      startHold(id);
+    }
+  }
+
+  /**
+   * Pauses the tour, stopping the camera where it is
+   */
+  function pause(): void {
+    if (status.value !== CameraTourStatus.Playing) return;
+
+    phaseElapsed += performance.now() - phaseStart;
+    interrupt(true);
+    status.value = CameraTourStatus.Paused;
+    updateProgress();
+  }
+
+  /**
+   * Stops the tour and goes back to its first keyframe
+   */
+  function stop(): void {
+    interrupt(status.value === CameraTourStatus.Playing);
+    status.value = CameraTourStatus.Idle;
+    moveStatus.value = null;
+    currentStep.value = 0;
+    phase = 'move';
+    phaseElapsed = 0;
+    progress.value = 0;
+  }
+
+  /**
+   * Jumps to a keyframe, the tour continues from there when playing
+   * @param step - Index of the keyframe
+   */
+  function seek(step: number): void {
+    const list = keyframeList.value;
+    const mapRef = mapInstance.value;
+
+    if (!list.length || !mapRef) return;
+
+    const isPlaying = status.value === CameraTourStatus.Playing;
+    const target = Math.max(0, Math.min(list.length - 1, Math.floor(step)));
+
+    interrupt(isPlaying);
+    currentStep.value = target;
+    phase = 'hold';
+    phaseElapsed = 0;
+
+    try {
+      mapRef.jumpTo(list[target].camera);
+    } catch (error) {
+      logError('Error seeking camera tour:', error, { step: target });
+    }
+
+    if (isPlaying) {
+      startFrameLoop();
+      startHold(runId);
+    } else {
+      status.value = CameraTourStatus.Paused;
+      updateProgress();
+    }
+  }
+
+  // Moves started by the user carry the original DOM event
+  useMapEventListener({
+    map,
+    event: 'movestart',
+    on: (e) => {
+      if (
+        !cancelOnInteraction ||
+        status.value !== CameraTourStatus.Playing ||
+        !(e as MapLibreEvent).originalEvent
+      ) {
+        return;
+      }
+
+      cancel();
+    },
+    debug,
+  });
+
+  // New keyframes start a new tour
+  const stopWatcher = watch(keyframeList, () => {
+    if (status.value !== CameraTourStatus.Idle) stop();
+  });
+
+  onUnmounted(() => {
+    stopWatcher();
+    interrupt(status.value === CameraTourStatus.Playing);
+  });
+
+  return {
+    status,
+    moveStatus,
+    currentStep,
+    progress,
+    play,
+    pause,
+    stop,
+    seek,
+  };
+}
@@ -0,0 +1,107 @@
+import { computed, unref } from 'vue';
+import { useEaseTo, useLayerEventListener, useLogger } from '@libs/composables';
+import type { MaybeRef } from 'vue';
+import type { Nullable } from '@libs/types';
+import type {
+  Map,
+  EaseToOptions,
+  GeoJSONSource,
+  LayerSpecification,
+  MapGeoJSONFeature,
+  MapLayerMouseEvent,
+} from 'maplibre-gl';
+
+interface ClusterZoomProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Layer rendering the clusters, clicks on it zoom into the cluster */
+  layer: MaybeRef<Nullable<LayerSpecification | string>>;
+  /** Clustered source or its id, defaults to the source of the clicked feature */
+  source?: MaybeRef<Nullable<GeoJSONSource | string>>;
+  /** Additional ease options, center and zoom are derived from the cluster */
+  options?: Omit<EaseToOptions, 'center' | 'zoom'>;
+  debug?: boolean;
+}
+
+interface ClusterZoomActions {
+  zoomToCluster: (feature: MapGeoJSONFeature) => Promise<void>;
+  removeListener: () => void;
+  attachListener: () => void;
+}
+
+/**
+ * Composable for zooming into a cluster when it is clicked
+ * Eases the camera to the cluster's center at the zoom level where it expands
+ *
+ * @param props - Configuration options for the cluster zoom
+ * @returns Actions for zooming into clusters
+ */
+export function useClusterZoom({
+  map,
+  layer,
+  source,
+  options = {},
+  debug = false,
+}: ClusterZoomProps): ClusterZoomActions {
+  const { logError } = useLogger(debug);
+  const { easeTo } = useEaseTo({ map, debug });
+
+  // Computed property for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+
+  /**
+   * Resolves the clustered source of a feature
+   * @param feature - Cluster feature
+   * @returns The GeoJSON source, or undefined if it is not on the map
+   */
+  function resolveSource(
+    feature: MapGeoJSONFeature,
+  ): GeoJSONSource | undefined {
+    const sourceVal = unref(source);
+
+    if (sourceVal && typeof sourceVal !== 'string') return sourceVal;
+
+    return mapInstance.value?.getSource<GeoJSONSource>(
+      sourceVal || feature.source,
+    );
+  }
+
+  /**
+   * Eases to the given cluster at the zoom level where it expands
+   * @param feature - Cluster feature, as returned by layer events or feature queries
+   * @returns Promise that resolves when the animation completes
+   */
+  async function zoomToCluster(feature: MapGeoJSONFeature): Promise<void> {
+    const clusterId = feature.properties?.cluster_id;
+
+    if (clusterId === undefined || feature.geometry.type !== 'Point') return;
+
+    try {
+      const clusterSource = resolveSource(feature);
+      if (!clusterSource) return;
+
+      const zoom = await clusterSource.getClusterExpansionZoom(clusterId);
+      const [lng, lat] = feature.geometry.coordinates;
+
+      await easeTo({ ...options, center: [lng, lat], zoom });
+    } catch (error) {
+      logError('Error zooming into cluster:', error, { clusterId });
+    }
+  }
+
+  const { removeListener, attachListener } = useLayerEventListener<'click'>({
+    map,
+    layer,
+    event: 'click',
+    on: (e: MapLayerMouseEvent) => {
+      const feature = e.features?.[0];
+      if (feature) zoomToCluster(feature);
+    },
+    debug,
+  });
+
+  return {
+    zoomToCluster,
+    removeListener,
+    attachListener,
+  };
+}
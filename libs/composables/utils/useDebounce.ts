@@ -199,6 +199,105 @@ export function useDebounce<T extends (...args: any[]) => any>(
   return debounced as DebouncedFunction<T>;
 }
 
+/**
+ * Throttle options interface
+ */
+interface ThrottleOptions {
+  /** Minimum time between two calls in milliseconds (default: 100) */
+  delay?: number;
+  /** Whether to call the last skipped call once the delay is over (default: true) */
+  trailing?: boolean;
+  /** Enable debug logging */
+  debug?: boolean;
+}
+
+/**
+ * Throttled function interface
+ */
+interface ThrottledFunction<T extends (...args: any[]) => any> {
+  (...args: Parameters<T>): void;
+  cancel: () => void;
+}
+
+/**
+ * Creates a throttled version of a function
+ * Unlike a debounced function it keeps running while calls keep coming: the
+ * first call runs right away and later calls at most once per delay
+ *
+ * @param func - Function to throttle
+ * @param options - Throttle configuration options
+ * @returns Throttled function with a cancel method
+ */
+export function useThrottle<T extends (...args: any[]) => any>(
+  func: T,
+  options: ThrottleOptions = {},
+): ThrottledFunction<T> {
+  const { delay = 100, trailing = true, debug = false } = options;
+
+  const { logError } = useLogger(debug);
+
+  let timeoutId: number | undefined;
+  let lastInvokeTime: number | undefined;
+  let lastArgs: Parameters<T> | undefined;
+
+  /**
+   * Invokes the original function with the last arguments
+   */
+  function invokeFunc(): void {
+    const args = lastArgs!;
+    lastArgs = undefined;
+    lastInvokeTime = Date.now();
+
+    try {
+      func(...args);
+    } catch (error) {
+      logError('Error in throttled function:', error);
+    }
+  }
+
+  /**
+   * Cancels the pending trailing call
+   */
+  function cancel(): void {
+    if (timeoutId !== undefined) {
+      clearTimeout(timeoutId);
+    }
+    timeoutId = undefined;
+    lastInvokeTime = undefined;
+    lastArgs = undefined;
+  }
+
+  /**
+   * Main throttled function
+   */
+  function throttled(...args: Parameters<T>): void {
+    const remaining =
+      lastInvokeTime === undefined ? 0 : delay - (Date.now() - lastInvokeTime);
+
+    lastArgs = args;
+
+    if (remaining <= 0) {
+      if (timeoutId !== undefined) {
+        clearTimeout(timeoutId);
+        timeoutId = undefined;
+      }
+      invokeFunc();
+    } else if (trailing && timeoutId === undefined) {
+      timeoutId = window.setTimeout(() => {
+        timeoutId = undefined;
+        if (lastArgs) invokeFunc();
+      }, remaining);
+    }
+  }
+
+  // Cleanup on unmount
+  onUnmounted(cancel);
+
+  throttled.cancel = cancel;
+
+  return throttled as ThrottledFunction<T>;
+}
+
 /**
  * Creates a debounced ref watcher
  *
@@ -0,0 +1,193 @@
+import { computed, ref, unref, watch, onUnmounted } from 'vue';
+import { LngLat } from 'maplibre-gl';
+import { useEaseTo, useLogger, useMapEventListener } from '@libs/composables';
+import { getBearing, getDistance } from '@libs/helpers';
+import type { MaybeRef, Ref } from 'vue';
+import type { Nullable } from '@libs/types';
+import type { Map, EaseToOptions, LngLatLike, PointLike } from 'maplibre-gl';
+
+/**
+ * Camera orientation while following
+ * - `north`: north up
+ * - `heading`: the `heading` value, such as a device or vehicle heading
+ * - `course`: the direction the target moves in, from its last positions
+ */
+export type FollowCameraBearing = 'north' | 'heading' | 'course';
+
+interface FollowCameraProps {
+  map: MaybeRef<Nullable<Map>>;
+  /** Position followed by the camera */
+  target: MaybeRef<Nullable<LngLatLike>>;
+  /** Camera orientation (default: 'north') */
+  bearing?: FollowCameraBearing;
+  /** Heading in degrees used with `bearing: 'heading'` */
+  heading?: MaybeRef<Nullable<number>>;
+  /** Pixel offset of the target from the map center */
+  offset?: PointLike;
+  /** Zoom level while following, the current zoom is kept otherwise */
+  zoom?: number;
+  /** Pitch while following, the current pitch is kept otherwise */
+  pitch?: number;
+  /** Duration of each camera update in milliseconds (default: 1000) */
+  duration?: number;
+  /** Minimum move in meters updating the course (default: 2) */
+  courseThreshold?: number;
+  /** Follow the target right away (default: true) */
+  autoStart?: boolean;
+  debug?: boolean;
+}
+
+interface FollowCameraActions {
+  isFollowing: Ref<boolean>;
+  course: Ref<Nullable<number>>;
+  follow: () => void;
+  unfollow: () => void;
+}
+
+/**
+ * Composable for a camera following a moving position
+ * Each target update starts a linear easeTo that interrupts the previous one,
+ * so regular updates give a continuous motion. Like the tracking mode of
+ * GeolocateControl, following pauses when the user drags the map and resumes
+ * with `follow`
+ *
+ * @param props - Configuration options for the camera
+ * @returns The following state and actions to resume or stop following
+ */
+export function useFollowCamera({
+  map,
+  target,
+  bearing = 'north',
+  heading,
+  offset,
+  zoom,
+  pitch,
+  duration = 1000,
+  courseThreshold = 2,
+  autoStart = true,
+  debug = false,
+}: FollowCameraProps): FollowCameraActions {
+  const { logError } = useLogger(debug);
+  const { easeTo } = useEaseTo({ map, debug });
+  const isFollowing = ref(autoStart);
+  const course = ref<Nullable<number>>(null);
+  let coursePosition: Nullable<[number, number]> = null;
+
+  // Computed properties for better reactivity and performance
+  const mapInstance = computed(() => unref(map));
+  const targetPosition = computed((): Nullable<[number, number]> => {
+    const value = unref(target);
+
+    if (!value) return null;
+
+    try {
+      const { lng, lat } = LngLat.convert(value);
+      return [lng, lat];
+    } catch (error) {
+      logError('Invalid follow camera target:', error, { target: value });
+      return null;
+    }
+  });
+
+  /**
+   * Updates the course once the target moved far enough from the last course position
+   * @param position - New target position
+   */
+  function updateCourse(position: [number, number]): void {
+    if (!coursePosition) {
+      coursePosition = position;
+      return;
+    }
+
+    if (getDistance(coursePosition, position) < courseThreshold) return;
+
+    course.value = getBearing(coursePosition, position);
+    coursePosition = position;
+  }
+
+  /**
+   * Camera bearing for the current orientation mode
+   */
+  function getCameraBearing(): number | undefined {
+    switch (bearing) {
+      case 'north':
+        return 0;
+      case 'heading': {
+        const value = unref(heading);
+        // Compass headings go from 0 to 360, the camera from -180 to 180
+        return value === null || value === undefined
+          ? undefined
+          : ((value + 540) % 360) - 180;
+      }
+      case 'course':
+        return course.value ?? undefined;
+    }
+  }
+
+  /**
+   * Eases the camera to the target, interrupting the running update
+   */
+  function moveCamera(): void {
+    const center = targetPosition.value;
+
+    if (!isFollowing.value || !center || !mapInstance.value) return;
+
+    const options: EaseToOptions = {
+      center,
+      bearing: getCameraBearing(),
+      zoom,
+      pitch,
+      offset,
+      duration,
+      easing: (t) => t,
+    };
+
+    easeTo(options).catch((error) =>
+      logError('Error moving follow camera:', error),
+    );
+  }
+
+  /**
+   * Starts or resumes following the target
+   */
+  function follow(): void {
+    isFollowing.value = true;
+    moveCamera();
+  }
+
+  /**
+   * Stops following, the camera stays where it is
+   */
+  function unfollow(): void {
+    isFollowing.value = false;
+  }
+
+  // Only the user drags the map, which hands the camera over to them
+  useMapEventListener({
+    map,
+    event: 'dragstart',
+    on: () => unfollow(),
+    debug,
+  });
+
+  const stopWatchers = [
+    watch(
+      targetPosition,
+      (position) => {
+        if (position) updateCourse(position);
+        moveCamera();
+      },
+      { immediate: true },
+    ),
+    watch([mapInstance, () => unref(heading)], moveCamera),
+  ];
+
+  onUnmounted(() => stopWatchers.forEach((stopWatcher) => stopWatcher()));
+
+  return {
+    isFollowing,
+    course,
+    follow,
+    unfollow,
+  };
+}
@@ -1,5 +1,11 @@
 import type { ComputedRef, InjectionKey, ShallowRef } from 'vue';
-import type { GeoJSONSource, Map, SourceSpecification } from 'maplibre-gl';
+import type {
+  Map,
+  LngLatLike,
+  Popup,
+  Source,
+  SourceSpecification,
+} from 'maplibre-gl';
 import type { Nullable } from '@libs/types';
 
 export const MapProvideKey = Symbol() as InjectionKey<
@@ -7,6 +13,12 @@ export const MapProvideKey = Symbol() as InjectionKey<
 >;
 
 export const SourceProvideKey = Symbol() as InjectionKey<
-  | ShallowRef<Nullable<SourceSpecification | GeoJSONSource>>
-  | ComputedRef<Nullable<SourceSpecification | GeoJSONSource>>
+  | ShallowRef<Nullable<SourceSpecification | Source>>
+  | ComputedRef<Nullable<SourceSpecification | Source>>
 >;
+
+export const MarkerProvideKey = Symbol() as InjectionKey<{
+  /** Popup nested in the marker, bound to it with `setPopup` */
+  popup: ShallowRef<Nullable<Popup>>;
+  lnglat: ComputedRef<LngLatLike | undefined>;
+}>;
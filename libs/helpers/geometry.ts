@@ -0,0 +1,297 @@
+import type { Geometry, Position } from 'geojson';
+
+const EARTH_RADIUS = 6371008.8;
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function toDegrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+export function getDistance(from: Position, to: Position): number {
+  const dLat = toRadians(to[1] - from[1]);
+  const dLng = toRadians(to[0] - from[0]);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from[1])) *
+      Math.cos(toRadians(to[1])) *
+      Math.sin(dLng / 2) ** 2;
+
+  return 2 * EARTH_RADIUS * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function getDestination(
+  origin: Position,
+  distance: number,
+  bearing: number,
+): Position {
+  const lat = toRadians(origin[1]);
+  const lng = toRadians(origin[0]);
+  const angle = distance / EARTH_RADIUS;
+  const theta = toRadians(bearing);
+
+  const destLat = Math.asin(
+    Math.sin(lat) * Math.cos(angle) +
+      Math.cos(lat) * Math.sin(angle) * Math.cos(theta),
+  );
+  const destLng =
+    lng +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angle) * Math.cos(lat),
+      Math.cos(angle) - Math.sin(lat) * Math.sin(destLat),
+    );
+
+  return [toDegrees(destLng), toDegrees(destLat)];
+}
+
+export function getBearing(from: Position, to: Position): number {
+  const fromLat = toRadians(from[1]);
+  const toLat = toRadians(to[1]);
+  const dLng = toRadians(to[0] - from[0]);
+
+  return toDegrees(
+    Math.atan2(
+      Math.sin(dLng) * Math.cos(toLat),
+      Math.cos(fromLat) * Math.sin(toLat) -
+        Math.sin(fromLat) * Math.cos(toLat) * Math.cos(dLng),
+    ),
+  );
+}
+
+export function getIntermediatePosition(
+  from: Position,
+  to: Position,
+  fraction: number,
+): Position {
+  const angle = getDistance(from, to) / EARTH_RADIUS;
+
+  if (!angle) return [from[0], from[1]];
+
+  const fromLat = toRadians(from[1]);
+  const fromLng = toRadians(from[0]);
+  const toLat = toRadians(to[1]);
+  const toLng = toRadians(to[0]);
+  const a = Math.sin((1 - fraction) * angle) / Math.sin(angle);
+  const b = Math.sin(fraction * angle) / Math.sin(angle);
+  const x =
+    a * Math.cos(fromLat) * Math.cos(fromLng) +
+    b * Math.cos(toLat) * Math.cos(toLng);
+  const y =
+    a * Math.cos(fromLat) * Math.sin(fromLng) +
+    b * Math.cos(toLat) * Math.sin(toLng);
+  const z = a * Math.sin(fromLat) + b * Math.sin(toLat);
+
+  return [
+    toDegrees(Math.atan2(y, x)),
+    toDegrees(Math.atan2(z, Math.sqrt(x ** 2 + y ** 2))),
+  ];
+}
+
+export function createCircleRing(
+  center: Position,
+  radius: number,
+  steps = 64,
+): Position[] {
+  const ring: Position[] = [];
+
+  for (let i = 0; i < steps; i++) {
+    ring.push(getDestination(center, radius, (i * 360) / steps));
+  }
+  ring.push(ring[0]);
+
+  return ring;
+}
+
+export function createRectangleRing(from: Position, to: Position): Position[] {
+  return [
+    [from[0], from[1]],
+    [to[0], from[1]],
+    [to[0], to[1]],
+    [from[0], to[1]],
+    [from[0], from[1]],
+  ];
+}
+
+export function mapGeometryPositions(
+  geometry: Geometry,
+  fn: (position: Position) => Position,
+): Geometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: fn(geometry.coordinates) };
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(fn) };
+    case 'MultiLineString':
+    case 'Polygon':
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((line) => line.map(fn)),
+      };
+    case 'MultiPolygon':
+      return {
+        ...geometry,
+        coordinates: geometry.coordinates.map((polygon) =>
+          polygon.map((ring) => ring.map(fn)),
+        ),
+      };
+    case 'GeometryCollection':
+      return {
+        ...geometry,
+        geometries: geometry.geometries.map((child) =>
+          mapGeometryPositions(child, fn),
+        ),
+      };
+  }
+}
+
+export function translateGeometry(
+  geometry: Geometry,
+  deltaLng: number,
+  deltaLat: number,
+): Geometry {
+  return mapGeometryPositions(geometry, ([lng, lat, ...rest]) => [
+    lng + deltaLng,
+    lat + deltaLat,
+    ...rest,
+  ]);
+}
+
+export function getGeometryPositions(geometry: Geometry): Position[] {
+  const positions: Position[] = [];
+
+  mapGeometryPositions(geometry, (position) => {
+    positions.push(position);
+    return position;
+  });
+
+  return positions;
+}
+
+export function isPointInPolygon(
+  point: Position,
+  polygon: Position[],
+): boolean {
+  const [x, y] = point;
+  let inside = false;
+
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const [xi, yi] = polygon[i];
+    const [xj, yj] = polygon[j];
+
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+function getOrientation(a: Position, b: Position, c: Position): number {
+  return Math.sign(
+    (b[0] - a[0]) * (c[1] - a[1]) - (b[1] - a[1]) * (c[0] - a[0]),
+  );
+}
+
+// Only proper crossings count, segments touching at an end or along an edge do not
+export function segmentsIntersect(
+  a: Position,
+  b: Position,
+  c: Position,
+  d: Position,
+): boolean {
+  const abc = getOrientation(a, b, c);
+  const abd = getOrientation(a, b, d);
+  const cda = getOrientation(c, d, a);
+  const cdb = getOrientation(c, d, b);
+
+  return abc * abd < 0 && cda * cdb < 0;
+}
+
+function isPointOnRing(point: Position, ring: Position[]): boolean {
+  return ring.some((start, i) => {
+    const end = ring[(i + 1) % ring.length];
+
+    return (
+      getOrientation(start, end, point) === 0 &&
+      point[0] >= Math.min(start[0], end[0]) &&
+      point[0] <= Math.max(start[0], end[0]) &&
+      point[1] >= Math.min(start[1], end[1]) &&
+      point[1] <= Math.max(start[1], end[1])
+    );
+  });
+}
+
+// A line touching the polygon outline without entering it does not intersect it
+function lineIntersectsPolygon(line: Position[], polygon: Position[]): boolean {
+  const hasPointInside = line.some(
+    (position) =>
+      isPointInPolygon(position, polygon) && !isPointOnRing(position, polygon),
+  );
+
+  if (hasPointInside) return true;
+
+  return line.some(
+    (start, i) =>
+      i < line.length - 1 &&
+      polygon.some((corner, j) =>
+        segmentsIntersect(
+          start,
+          line[i + 1],
+          corner,
+          polygon[(j + 1) % polygon.length],
+        ),
+      ),
+  );
+}
+
+function polygonContainsPoint(rings: Position[][], point: Position): boolean {
+  const [outer, ...holes] = rings;
+
+  return (
+    !!outer &&
+    isPointInPolygon(point, outer) &&
+    !holes.some((hole) => isPointInPolygon(point, hole))
+  );
+}
+
+// Geometry and polygon must use the same planar coordinates, such as screen pixels
+export function geometryIntersectsPolygon(
+  geometry: Geometry,
+  polygon: Position[],
+): boolean {
+  switch (geometry.type) {
+    case 'Point':
+      return isPointInPolygon(geometry.coordinates, polygon);
+    case 'MultiPoint':
+      return geometry.coordinates.some((point) =>
+        isPointInPolygon(point, polygon),
+      );
+    case 'LineString':
+      return lineIntersectsPolygon(geometry.coordinates, polygon);
+    case 'MultiLineString':
+      return geometry.coordinates.some((line) =>
+        lineIntersectsPolygon(line, polygon),
+      );
+    case 'Polygon':
+    case 'MultiPolygon': {
+      const polygons =
+        geometry.type === 'Polygon'
+          ? [geometry.coordinates]
+          : geometry.coordinates;
+
+      // Rings crossing or inside the polygon, or the polygon inside the feature
+      return polygons.some(
+        (rings) =>
+          rings.some((ring) => lineIntersectsPolygon(ring, polygon)) ||
+          polygonContainsPoint(rings, polygon[0]),
+      );
+    }
+    case 'GeometryCollection':
+      return geometry.geometries.some((child) =>
+        geometryIntersectsPolygon(child, polygon),
+      );
+  }
+}
@@ -0,0 +1,83 @@
+import type { SpriteIndex } from '@libs/types';
+import type { StyleImageMetadata } from 'maplibre-gl';
+
+const SVG_PATTERN = /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i;
+
+export function isSvgString(value: string): boolean {
+  return SVG_PATTERN.test(value);
+}
+
+export function getDevicePixelRatio(): number {
+  return typeof window === 'undefined' ? 1 : window.devicePixelRatio || 1;
+}
+
+/**
+ * Adds a suffix such as `@2x` to a sprite URL, before its query string
+ */
+export function getSpriteUrl(
+  url: string,
+  suffix: string,
+  extension: string,
+): string {
+  const [path, query] = url.split('?');
+  return `${path}${suffix}.${extension}${query ? `?${query}` : ''}`;
+}
+
+function createCanvasContext(
+  width: number,
+  height: number,
+): CanvasRenderingContext2D {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) throw new Error('Canvas 2D context is not available');
+
+  return context;
+}
+
+/**
+ * Renders an SVG string to image data at the given pixel ratio
+ */
+export async function rasterizeSvg(
+  svg: string,
+  pixelRatio = 1,
+): Promise<ImageData> {
+  const url = URL.createObjectURL(
+    new Blob([svg], { type: 'image/svg+xml;charset=utf-8' }),
+  );
+
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+
+    const width = Math.max(1, Math.round(image.width * pixelRatio));
+    const height = Math.max(1, Math.round(image.height * pixelRatio));
+    const context = createCanvasContext(width, height);
+
+    context.drawImage(image, 0, 0, width, height);
+    return context.getImageData(0, 0, width, height);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Cuts a sprite sheet into the images listed in its index
+ */
+export function sliceSprite(
+  image: HTMLImageElement | ImageBitmap,
+  index: SpriteIndex,
+): Record<string, { data: ImageData; options: Partial<StyleImageMetadata> }> {
+  const context = createCanvasContext(image.width, image.height);
+  context.drawImage(image, 0, 0);
+
+  return Object.fromEntries(
+    Object.entries(index).map(([id, { x, y, width, height, ...options }]) => [
+      id,
+      { data: context.getImageData(x, y, width, height), options },
+    ]),
+  );
+}
@@ -1,6 +1,16 @@
 import { getVersion } from 'maplibre-gl';
 import { nanoid } from 'nanoid';
-import type { LngLatLike, Map } from 'maplibre-gl';
+import type {
+  LngLatLike,
+  Map,
+  GeoJSONFeatureId,
+  GeoJSONFeatureDiff,
+  MapGeoJSONFeature,
+  PromoteIdSpecification,
+} from 'maplibre-gl';
+
+export * from './geometry';
+export * from './image';
 
 export function getNanoid(id?: string) {
   if (id) return id;
@@ -50,3 +60,41 @@ export function filterStylePropertiesByKeys<T extends Record<string, any>>(
     Object.entries(style).filter(([key]) => keys.includes(key as keyof T)),
   ) as T;
 }
+
+export function getFeatureId(
+  feature: GeoJSON.Feature,
+  promoteId?: PromoteIdSpecification,
+): GeoJSONFeatureId | undefined {
+  if (typeof promoteId === 'string') return feature.properties?.[promoteId];
+  return feature.id;
+}
+
+export function getFeatureDiff(
+  featureId: GeoJSONFeatureId,
+  feature: GeoJSON.Feature,
+): GeoJSONFeatureDiff {
+  return {
+    id: featureId,
+    newGeometry: feature.geometry,
+    removeAllProperties: true,
+    addOrUpdateProperties: Object.entries(feature.properties ?? {}).map(
+      ([key, value]) => ({ key, value }),
+    ),
+  };
+}
+
+export function dedupeFeatures(
+  features: MapGeoJSONFeature[],
+): MapGeoJSONFeature[] {
+  const seen = new Set<string>();
+
+  return features.filter((feature) => {
+    if (feature.id === undefined) return true;
+
+    const key = `${feature.layer.id}:${feature.source}:${feature.sourceLayer ?? ''}:${feature.id}`;
+    if (seen.has(key)) return false;
+
+    seen.add(key);
+    return true;
+  });
+}
@@ -155,9 +155,10 @@ export {
   VectorTileSource,
   RasterTileSource,
   RasterDEMTileSource,
-  ImageSource,
-  VideoSource,
-  CanvasSource,
+  // Aliased, the source components use the MapLibre class names
+  ImageSource as MaplibreImageSource,
+  VideoSource as MaplibreVideoSource,
+  CanvasSource as MaplibreCanvasSource,
 
   // ===== MARKER & POPUP CLASSES =====
   // Marker,
@@ -10,14 +10,18 @@ import type {
   Map,
   MapEventType,
   MapOptions,
+  MapTerrainEvent,
   PaddingOptions,
   Point,
   PointLike,
   QueryRenderedFeaturesOptions,
   QuerySourceFeatureOptions,
   StyleImageInterface,
+  StyleImageMetadata,
+  SkySpecification,
   StyleSetterOptions,
   StyleSpecification,
+  TerrainSpecification,
 } from 'maplibre-gl';
 import type { MapCreationStatus } from '@libs/enums';
 
@@ -42,6 +46,8 @@ export interface CreateMaplibreActions {
   setMaxPitch: (pitch: number) => void;
   setMaxBounds: (bounds: LngLatBoundsLike) => void;
   setRenderWorldCopies: (renderWorldCopies: boolean) => void;
+  setTerrain: (terrain: Nullable<TerrainSpecification>) => void;
+  setSky: (sky: Nullable<SkySpecification>) => void;
 }
 
 export type MaplibreActions = CreateMaplibreActions & {
@@ -122,6 +128,11 @@ export interface GeolocateEventTypes {
   trackuserlocationend: GeolocateSuccess;
 }
 
+export interface TerrainEvent extends MapTerrainEvent {
+  target: Map;
+  terrain: Nullable<TerrainSpecification>;
+}
+
 export type LayerTypes =
   | 'fill'
   | 'line'
@@ -321,9 +332,113 @@ export interface SymbolPaint {
 
 export type SymbolLayerStyle = SymbolLayout & SymbolPaint;
 
-export type AnyLayout = FillLayout | CircleLayout | LineLayout | SymbolLayout;
+export type RasterLayout = Layout;
+
+export interface RasterPaint {
+  'raster-opacity'?: number | StyleFunction | Expressions | undefined;
+  'raster-hue-rotate'?: number | StyleFunction | Expressions | undefined;
+  'raster-brightness-min'?: number | StyleFunction | Expressions | undefined;
+  'raster-brightness-max'?: number | StyleFunction | Expressions | undefined;
+  'raster-saturation'?: number | StyleFunction | Expressions | undefined;
+  'raster-contrast'?: number | StyleFunction | Expressions | undefined;
+  'raster-resampling'?: 'linear' | 'nearest' | Expressions | undefined;
+  'raster-fade-duration'?: number | Expressions | undefined;
+}
+
+export type RasterLayerStyle = RasterLayout & RasterPaint;
 
-export type AnyPaint = FillPaint | CirclePaint | LinePaint | SymbolPaint;
+export type HillshadeLayout = Layout;
+
+export interface HillshadePaint {
+  'hillshade-illumination-direction'?:
+    | number
+    | number[]
+    | StyleFunction
+    | Expressions
+    | undefined;
+  'hillshade-illumination-altitude'?:
+    | number
+    | number[]
+    | StyleFunction
+    | Expressions
+    | undefined;
+  'hillshade-illumination-anchor'?:
+    | 'map'
+    | 'viewport'
+    | Expressions
+    | undefined;
+  'hillshade-exaggeration'?: number | StyleFunction | Expressions | undefined;
+  'hillshade-shadow-color'?:
+    | string
+    | string[]
+    | StyleFunction
+    | Expressions
+    | undefined;
+  'hillshade-highlight-color'?:
+    | string
+    | string[]
+    | StyleFunction
+    | Expressions
+    | undefined;
+  'hillshade-accent-color'?: string | StyleFunction | Expressions | undefined;
+  'hillshade-method'?:
+    | 'standard'
+    | 'basic'
+    | 'combined'
+    | 'igor'
+    | 'multidirectional'
+    | Expressions
+    | undefined;
+}
+
+export type HillshadeLayerStyle = HillshadeLayout & HillshadePaint;
+
+export type HeatmapLayout = Layout;
+
+export interface HeatmapPaint {
+  'heatmap-radius'?: number | StyleFunction | Expressions | undefined;
+  'heatmap-weight'?: number | StyleFunction | Expressions | undefined;
+  'heatmap-intensity'?: number | StyleFunction | Expressions | undefined;
+  'heatmap-color'?: string | StyleFunction | Expressions | undefined;
+  'heatmap-opacity'?: number | StyleFunction | Expressions | undefined;
+}
+
+export type HeatmapLayerStyle = HeatmapLayout & HeatmapPaint;
+
+export type FillExtrusionLayout = Layout;
+
+export interface FillExtrusionPaint {
+  'fill-extrusion-opacity'?: number | StyleFunction | Expressions | undefined;
+  'fill-extrusion-color'?: string | StyleFunction | Expressions | undefined;
+  'fill-extrusion-translate'?: number[] | Expressions | undefined;
+  'fill-extrusion-translate-anchor'?: 'map' | 'viewport' | undefined;
+  'fill-extrusion-pattern'?: string | Expressions | undefined;
+  'fill-extrusion-height'?: number | StyleFunction | Expressions | undefined;
+  'fill-extrusion-base'?: number | StyleFunction | Expressions | undefined;
+  'fill-extrusion-vertical-gradient'?: boolean | undefined;
+}
+
+export type FillExtrusionLayerStyle = FillExtrusionLayout & FillExtrusionPaint;
+
+export type AnyLayout =
+  | FillLayout
+  | CircleLayout
+  | LineLayout
+  | SymbolLayout
+  | RasterLayout
+  | HillshadeLayout
+  | HeatmapLayout
+  | FillExtrusionLayout;
+
+export type AnyPaint =
+  | FillPaint
+  | CirclePaint
+  | LinePaint
+  | SymbolPaint
+  | RasterPaint
+  | HillshadePaint
+  | HeatmapPaint
+  | FillExtrusionPaint;
 
 export type ImageDatas =
   | HTMLImageElement
@@ -335,3 +450,15 @@ export type ImageDatas =
       data: Uint8Array | Uint8ClampedArray;
     }
   | StyleImageInterface;
+
+/**
+ * Entry of a sprite sheet index, as in the sprite JSON of a MapLibre style
+ */
+export type SpriteIndexEntry = Partial<StyleImageMetadata> & {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+};
+
+export type SpriteIndex = Record<string, SpriteIndexEntry>;
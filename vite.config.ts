@@ -40,7 +40,8 @@ export default defineConfig({
     // Optimize chunk size
     chunkSizeWarningLimit: 1000,
     rollupOptions: {
-      external: ['vue', 'maplibre-gl'],
+      // The style spec is the copy maplibre-gl depends on, not a second bundled one
+      external: ['vue', 'maplibre-gl', '@maplibre/maplibre-gl-style-spec'],
       output: [
         {
           format: 'es',
@@ -58,6 +59,7 @@ export default defineConfig({
           globals: {
             vue: 'Vue',
             'maplibre-gl': 'maplibregl',
+            '@maplibre/maplibre-gl-style-spec': 'maplibreGlStyleSpecification',
           },
           exports: 'named',
           // Optimize output
@@ -81,6 +83,7 @@ export default defineConfig({
           globals: {
             vue: 'Vue',
             'maplibre-gl': 'maplibregl',
+            '@maplibre/maplibre-gl-style-spec': 'maplibreGlStyleSpecification',
           },
           exports: 'named',
           compact: true,